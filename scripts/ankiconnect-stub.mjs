@@ -0,0 +1,142 @@
+// A stand-in for the AnkiConnect add-on, for trying "Send to Anki" without Anki running.
+// Keeps decks, note types and notes in memory and logs every request.
+//
+//   npm run ankiconnect:stub            listens on http://127.0.0.1:8765
+//   PORT=8766 npm run ankiconnect:stub  any other port; set the URL in Flashy's Send to Anki dialog
+//
+// It implements the actions Flashy uses, with AnkiConnect's request and response shapes.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT) || 8765;
+
+const decks = new Set(['Default']);
+const models = new Map([['Basic', ['Front', 'Back']], ['Cloze', ['Text', 'Extra']]]);
+const templates = new Map([['Basic', ['Card 1']], ['Cloze', ['Cloze']]]);
+const notes = new Map();
+const media = new Map();
+let nextId = Date.now();
+
+function checkNote(note) {
+  if (!decks.has(note.deckName)) return `deck was not found: ${note.deckName}`;
+  const fields = models.get(note.modelName);
+  if (!fields) return `model was not found: ${note.modelName}`;
+  const first = note.fields[fields[0]] ?? '';
+  if (!first.trim()) return 'cannot create note because it is empty';
+  const duplicate = [...notes.values()].some(n =>
+    n.modelName === note.modelName && n.deckName === note.deckName && n.fields[fields[0]] === first);
+  if (duplicate && !note.options?.allowDuplicate) return 'cannot create note because it is a duplicate';
+  return null;
+}
+
+const actions = {
+  version: () => 6,
+  requestPermission: () => ({ permission: 'granted', requireApikey: false, version: 6 }),
+  deckNames: () => [...decks],
+  createDeck: ({ deck }) => {
+    decks.add(deck);
+    return nextId++;
+  },
+  modelNames: () => [...models.keys()],
+  createModel: ({ modelName, inOrderFields, cardTemplates }) => {
+    if (models.has(modelName)) throw new Error(`Model name already exists`);
+    models.set(modelName, inOrderFields);
+    templates.set(modelName, cardTemplates.map(t => t.Name));
+    return { name: modelName };
+  },
+  updateModelStyling: ({ model }) => {
+    if (!models.has(model.name)) throw new Error(`model was not found: ${model.name}`);
+    return null;
+  },
+  // Like the add-on, templates the note type doesn't have are ignored rather than reported
+  updateModelTemplates: ({ model }) => {
+    if (!models.has(model.name)) throw new Error(`model was not found: ${model.name}`);
+    return null;
+  },
+  modelTemplates: ({ modelName }) => {
+    if (!models.has(modelName)) throw new Error(`model was not found: ${modelName}`);
+    return Object.fromEntries(templates.get(modelName).map(name => [name, { Front: '', Back: '' }]));
+  },
+  modelTemplateAdd: ({ modelName, template }) => {
+    if (!models.has(modelName)) throw new Error(`model was not found: ${modelName}`);
+    if (templates.get(modelName).includes(template.Name)) throw new Error(`template already exists: ${template.Name}`);
+    templates.get(modelName).push(template.Name);
+    return null;
+  },
+  storeMediaFile: ({ filename, data }) => {
+    if (!filename || typeof data !== 'string') throw new Error('storeMediaFile needs a filename and base64 data');
+    media.set(filename, Buffer.from(data, 'base64'));
+    return filename;
+  },
+  canAddNotesWithErrorDetail: ({ notes: batch }) => batch.map(note => {
+    const error = checkNote(note);
+    return error ? { canAdd: false, error } : { canAdd: true };
+  }),
+  addNotes: ({ notes: batch }) => batch.map(note => {
+    if (checkNote(note)) return null;
+    const id = nextId++;
+    notes.set(id, { ...note, tags: note.tags ?? [], cards: [nextId++] });
+    return id;
+  }),
+  notesInfo: ({ notes: ids }) => ids.map(id => {
+    const note = notes.get(id);
+    if (!note) return {};
+    const fields = Object.fromEntries(
+      Object.entries(note.fields).map(([name, value], order) => [name, { value, order }]));
+    return { noteId: id, modelName: note.modelName, tags: note.tags, fields, cards: note.cards };
+  }),
+  updateNoteFields: ({ note: { id, fields } }) => {
+    const note = notes.get(id);
+    if (!note) throw new Error(`Note was not found: ${id}`);
+    Object.assign(note.fields, fields);
+    return null;
+  },
+  updateNoteTags: ({ note: id, tags }) => {
+    const note = notes.get(id);
+    if (!note) throw new Error(`Note was not found: ${id}`);
+    note.tags = tags;
+    return null;
+  },
+  changeDeck: ({ cards, deck }) => {
+    decks.add(deck);
+    for (const note of notes.values()) {
+      if (note.cards.some(card => cards.includes(card))) note.deckName = deck;
+    }
+    return null;
+  },
+  multi: ({ actions: batch }) => batch.map(({ action, params }) => run(action, params ?? {})),
+};
+
+function run(action, params) {
+  const handler = actions[action];
+  if (!handler) return { result: null, error: 'unsupported action' };
+  try {
+    return { result: handler(params), error: null };
+  } catch (err) {
+    return { result: null, error: err.message };
+  }
+}
+
+createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+  if (req.method !== 'POST') {
+    res.end(req.method === 'OPTIONS' ? '' : 'AnkiConnect stand-in');
+    return;
+  }
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let reply;
+    try {
+      const { action, params } = JSON.parse(body);
+      reply = run(action, params ?? {});
+      console.log(action, reply.error ? `-> error: ${reply.error}` : '');
+    } catch {
+      reply = { result: null, error: 'invalid request' };
+    }
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(reply));
+  });
+}).listen(port, '127.0.0.1', () => {
+  console.log(`AnkiConnect stand-in listening on http://127.0.0.1:${port}`);
+});
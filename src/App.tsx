@@ -1,22 +1,39 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { clsx } from 'clsx';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Download, Sparkles, FileText, Rocket, Type } from 'lucide-react';
+import { Sparkles, FileText, Rocket, Type, Square, RefreshCw, GraduationCap, Image as ImageIcon } from 'lucide-react';
 import { FileUploader } from './components/features/upload/FileUploader';
+import { SourcePreview } from './components/features/source/SourcePreview';
 import { ConfigurationPanel } from './components/features/config/ConfigurationPanel';
-import { extractText } from './lib/extractors';
-import { generateFlashcards, fetchAvailableModels, FALLBACK_MODELS } from './lib/ai';
-import type { Flashcard, ModelOption } from './lib/ai';
-import { generateAnkiPackage, downloadDeck } from './lib/anki';
-import { getDecks, saveDeck, deleteDeck } from './lib/storage';
+import { extractInWorker, loadMaxUploadMb, saveMaxUploadMb } from './lib/extraction';
+import type { ExtractionProgress } from './lib/extractors';
+import { createTextDocument, describeSelection, selectSections } from './lib/document';
+import type { ExtractedDocument } from './lib/document';
+import { generateFlashcards, fetchAvailableModels, acceptsImages, FALLBACK_MODELS } from './lib/ai';
+import type { CardTypeMode, Flashcard, GenerationProgress, ModelOption } from './lib/ai';
+import { PROVIDERS, loadProvider, selectProvider, saveProviderBaseUrl } from './lib/providers';
+import type { LLMProvider, ProviderId } from './lib/providers';
+import { readAnkiPackage, isAnkiPackage } from './lib/importers';
+import { getDecks, saveDeck, deleteDeck, updateDeck, pruneMedia, moveLegacyDecks } from './lib/storage';
+import { draftImageNames, mediaReferences } from './lib/media';
 import type { DeckRecord } from './lib/storage';
+import type { ReviewLogEntry, ReviewState } from './lib/srs';
+import { DEFAULT_DECK_OPTIONS } from './lib/deckoptions';
+import type { DeckOptions } from './lib/deckoptions';
 import { DeckHistory } from './components/features/history/DeckHistory';
+import { StudySession } from './components/features/study/StudySession';
+import { ExportMenu } from './components/features/export/ExportMenu';
 import { ApiKeyGuide } from './components/features/guide/ApiKeyGuide';
+import { CardGrid } from './components/features/cards/CardGrid';
 
 function App() {
   const [file, setFile] = useState<File | null>(null);
-  const [extractedText, setExtractedText] = useState<string>('');
+  const [sourceDoc, setSourceDoc] = useState<ExtractedDocument | null>(null);
+  const [selectedSections, setSelectedSections] = useState<number[]>([]);   // indexes into sourceDoc.sections
   const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
+  const extractionRef = useRef<AbortController | null>(null);
+  const [maxUploadMb, setMaxUploadMb] = useState(loadMaxUploadMb);
 
   // Config State
   const [config, setConfig] = useState({
@@ -24,33 +41,83 @@ function App() {
     numCards: 15,
     difficulty: 'Intermediate',
     focusAreas: '',
-    tags: ''
+    tags: '',
+    cardType: 'basic' as CardTypeMode,
+    repairAttempts: 1,
+    subdecksBySection: false,
+    deckOptions: DEFAULT_DECK_OPTIONS as DeckOptions,
   });
 
   // Generation State
+  const [provider, setProvider] = useState<LLMProvider>(loadProvider);
+  const [baseUrlDraft, setBaseUrlDraft] = useState(provider.baseUrl);
   const [apiKey, setApiKey] = useState('');
   const [models, setModels] = useState<ModelOption[]>(FALLBACK_MODELS);
   const [model, setModel] = useState(FALLBACK_MODELS[0].id);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [cards, setCards] = useState<Flashcard[]>([]);
+  const [currentDeckId, setCurrentDeckId] = useState<string | null>(null);
   const [generationError, setGenerationError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadModels = useCallback(async (target: LLMProvider, key?: string) => {
+    setIsLoadingModels(true);
+    const fetched = await fetchAvailableModels(target, key);
+    setIsLoadingModels(false);
+    setModels(fetched);
+    setModel(current => fetched.some(m => m.id === current) ? current : (fetched[0]?.id ?? ''));
+  }, []);
 
-  // Fetch live model list from OpenRouter on mount
+  // Fetch the live model list whenever the provider or its base URL changes
   useEffect(() => {
-    fetchAvailableModels().then((fetched) => {
-      setModels(fetched);
-      if (fetched.length > 0 && !fetched.some(m => m.id === model)) {
-        setModel(fetched[0].id);
-      }
-    });
-  }, []);
-  const [isDownloading, setIsDownloading] = useState(false);
+    loadModels(provider);
+  }, [provider, loadModels]);
+
+  const handleProviderChange = (id: ProviderId) => {
+    const next = selectProvider(id);
+    setProvider(next);
+    setBaseUrlDraft(next.baseUrl);
+  };
+
+  const handleBaseUrlCommit = () => {
+    if (baseUrlDraft.trim() === provider.baseUrl) return;
+    const next = saveProviderBaseUrl(provider, baseUrlDraft);
+    setProvider(next);
+    setBaseUrlDraft(next.baseUrl);
+  };
 
-  // Saved decks from localStorage
+  const needsApiKey = provider.requiresKey && !apiKey;
+
+  // A photo can only go to a model that accepts images
+  const needsVision = sourceDoc?.sourceType === 'image';
+  const modelChoices = needsVision ? models.filter(acceptsImages) : models;
+  const selectedModel = modelChoices.some(m => m.id === model) ? model : (modelChoices[0]?.id ?? '');
+
+  // Saved decks from the IndexedDB library
   const [savedDecks, setSavedDecks] = useState<DeckRecord[]>([]);
-  useEffect(() => {
-    setSavedDecks(getDecks());
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const currentDeck = savedDecks.find(d => d.id === currentDeckId);
+  const [studyDeckId, setStudyDeckId] = useState<string | null>(null);
+  const studyDeck = savedDecks.find(d => d.id === studyDeckId);
+  const refreshDecks = useCallback(async () => {
+    // Decks an older version left in localStorage are moved over first; ones that can't be read are reported
+    try {
+      await moveLegacyDecks();
+      setLibraryError(null);
+    } catch (error) {
+      setLibraryError(error instanceof Error ? error.message : String(error));
+    }
+    try {
+      setSavedDecks(await getDecks());
+    } catch (error) {
+      console.error(error);
+    }
   }, []);
+  useEffect(() => {
+    refreshDecks();
+  }, [refreshDecks]);
 
   // Auto-set deck name from filename
   useEffect(() => {
@@ -62,105 +129,252 @@ function App() {
 
   const [pastedText, setPastedText] = useState('');
 
-  const handleConfigChange = (key: string, value: any) => {
+  const handleConfigChange = async (key: string, value: any) => {
     setConfig(prev => ({ ...prev, [key]: value }));
+    // Deck options are stored with the deck, so its exports from the history use them too
+    if (key === 'deckOptions' && currentDeckId) {
+      try {
+        await updateDeck(currentDeckId, { deckOptions: value });
+        await refreshDecks();
+      } catch (error) {
+        console.error(error);
+        setGenerationError(`Your changes couldn't be saved to history: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
   };
 
   const handleTextSubmit = () => {
     const trimmed = pastedText.trim();
     if (!trimmed) return;
-    setExtractedText(trimmed);
+    const doc = createTextDocument(trimmed);
+    setSourceDoc(doc);
+    setSelectedSections(doc.sections.map((_, i) => i));
     setCards([]);
+    setCurrentDeckId(null);
     setGenerationError(null);
     if (!config.deckName) {
       setConfig(prev => ({ ...prev, deckName: 'My Deck' }));
     }
   };
 
+  // An .apkg goes straight into the library: one saved deck per Anki deck, then the first one is opened
+  const handleImportPackage = async (selectedFile: File) => {
+    setIsExtracting(true);
+    try {
+      const result = await readAnkiPackage(selectedFile);
+      if (!result.decks.length) {
+        alert(['No cards could be imported from this package.', ...result.warnings].join('\n'));
+        return;
+      }
+      const saved: DeckRecord[] = [];
+      for (const deck of result.decks) {
+        saved.push(await saveDeck({
+          deckName: deck.deckName,
+          cards: deck.cards,
+          reviews: deck.reviews,
+          model: '',
+          difficulty: '',
+          sourceFile: selectedFile.name,
+          sourceType: 'apkg',
+          tags: [],
+        }));
+      }
+      await refreshDecks();
+      handleLoadDeck(saved[0]);
+      const imported = saved.reduce((sum, deck) => sum + deck.cardCount, 0);
+      setGenerationError([
+        `Imported ${imported} of ${result.noteCount} notes into ${saved.length} deck${saved.length === 1 ? '' : 's'}.`,
+        ...result.warnings,
+      ].join(' '));
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : 'Failed to import the Anki package');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
   const handleFileSelect = async (selectedFile: File) => {
+    if (isAnkiPackage(selectedFile)) {
+      await handleImportPackage(selectedFile);
+      return;
+    }
     setFile(selectedFile);
     setIsExtracting(true);
-    setExtractedText('');
+    setSourceDoc(null);
     setCards([]);
+    setCurrentDeckId(null);
     setGenerationError(null);
 
+    const controller = new AbortController();
+    extractionRef.current = controller;
     try {
-      const text = await extractText(selectedFile);
-      setExtractedText(text);
+      const doc = await extractInWorker(selectedFile, { onProgress: setExtractionProgress, signal: controller.signal });
+      setSourceDoc(doc);
+      setSelectedSections(doc.sections.map((_, i) => i));
     } catch (error) {
+      if (controller.signal.aborted) return;   // Start Over already reset the view
       console.error(error);
-      alert('Failed to extract text from file');
+      alert(error instanceof Error ? error.message : 'Failed to extract text from file');
       setFile(null); // Reset if failed
     } finally {
-      setIsExtracting(false);
+      if (extractionRef.current === controller) {
+        extractionRef.current = null;
+        setIsExtracting(false);
+        setExtractionProgress(null);
+      }
     }
   };
 
   const handleGenerate = async () => {
-    if (!apiKey) {
+    if (needsApiKey) {
       alert('Please enter an API Key');
       return;
     }
+    if (!sourceDoc || !selectedSections.length) return;
+
+    // Only the pages or sections ticked in the source panel are sent
+    const selection = describeSelection(sourceDoc, selectedSections);
+    const doc = selection ? selectSections(sourceDoc, selectedSections) : sourceDoc;
 
     setIsGenerating(true);
     setGenerationError(null);
     setCards([]);
+    setCurrentDeckId(null);
+    setProgress(null);
+
+    let finalProgress = null as GenerationProgress | null;
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const generatedCards = await generateFlashcards(extractedText, {
+      const generatedCards = await generateFlashcards(doc, {
+        provider,
         apiKey,
-        model,
+        model: selectedModel,
         numCards: config.numCards,
         difficulty: config.difficulty,
         deckName: config.deckName,
         tags: config.tags.split(',').map(t => t.trim()).filter(Boolean),
-        focusAreas: config.focusAreas
+        focusAreas: config.focusAreas,
+        cardType: config.cardType,
+        contextLength: models.find(m => m.id === selectedModel)?.contextLength ?? provider.defaultContextTokens,
+        onProgress: (p) => {
+          finalProgress = p;
+          setProgress(p);
+        },
+        onCard: (card) => setCards(prev => [...prev, card]),
+        signal: controller.signal,
+        maxRepairAttempts: config.repairAttempts,
+        subdecksBySection: config.subdecksBySection,
       });
       setCards(generatedCards);
+      if (controller.signal.aborted) {
+        setGenerationError(`Generation cancelled — kept ${generatedCards.length} card${generatedCards.length === 1 ? '' : 's'} received so far.`);
+        if (!generatedCards.length) return;
+      } else if (finalProgress?.failedChunks) {
+        setGenerationError(`${finalProgress.failedChunks} of ${finalProgress.totalChunks} document parts failed to generate, so some sections have no cards.`);
+      } else if (finalProgress?.invalidCards) {
+        setGenerationError(`${finalProgress.invalidCards} malformed card${finalProgress.invalidCards === 1 ? ' was' : 's were'} dropped.`);
+      }
 
-      // Save to local history
-      saveDeck({
-        deckName: config.deckName || 'Untitled Deck',
-        cards: generatedCards,
-        model,
-        difficulty: config.difficulty,
-        sourceFile: file?.name ?? 'Pasted text',
-        tags: config.tags.split(',').map(t => t.trim()).filter(Boolean),
-      });
-      setSavedDecks(getDecks());
+      // Save to local history; a storage failure shouldn't throw away the generated cards
+      try {
+        const saved = await saveDeck({
+          deckName: config.deckName || 'Untitled Deck',
+          cards: generatedCards,
+          model: selectedModel,
+          difficulty: config.difficulty,
+          sourceFile: sourceDoc.sourceFile,
+          sourceType: sourceDoc.sourceType,
+          sourceMetadata: sourceDoc.metadata,
+          sourceSelection: selection,
+          tags: config.tags.split(',').map(t => t.trim()).filter(Boolean),
+          deckOptions: config.deckOptions,
+        });
+        setCurrentDeckId(saved.id);
+        await refreshDecks();
+      } catch (error) {
+        console.error(error);
+        setGenerationError(`Cards were generated but not saved to your history: ${error instanceof Error ? error.message : String(error)}. You can still download them below.`);
+      }
     } catch (error: any) {
       setGenerationError(error.message);
     } finally {
+      abortRef.current = null;
       setIsGenerating(false);
+      setProgress(null);
     }
   };
 
-  const handleDownload = async () => {
-    if (!cards.length) return;
-    setIsDownloading(true);
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleStartOver = () => {
+    handleCancel();
+    extractionRef.current?.abort();
+    extractionRef.current = null;
+    setIsExtracting(false);
+    setExtractionProgress(null);
+    setFile(null);
+    setSourceDoc(null);
+    setSelectedSections([]);
+    setCards([]);
+    setCurrentDeckId(null);
+    setPastedText('');
+  };
+
+  // Edits are written straight back to the saved deck, so history re-downloads the edited version
+  const handleCardsChange = async (next: Flashcard[]) => {
+    setCards(next);
+    if (!currentDeckId) return;
     try {
-      const blob = await generateAnkiPackage(cards, config.deckName || 'Deck');
-      downloadDeck(blob, config.deckName || 'Deck');
+      await updateDeck(currentDeckId, { cards: next });
+      await refreshDecks();
     } catch (error) {
       console.error(error);
-      alert('Failed to generate Anki package');
-    } finally {
-      setIsDownloading(false);
+      setGenerationError(`Your changes couldn't be saved to history: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
-  const handleDeleteDeck = (id: string) => {
-    deleteDeck(id);
-    setSavedDecks(getDecks());
+  const handleSaveReviews = async (deckId: string, reviews: Record<string, ReviewState>, reviewLog: ReviewLogEntry[]) => {
+    await updateDeck(deckId, { reviews, reviewLog });
+    await refreshDecks();
+  };
+
+  const handleSaveAnkiNoteIds = async (deckId: string, ankiNoteIds: Record<string, number>) => {
+    await updateDeck(deckId, { ankiNoteIds });
+    await refreshDecks();
+  };
+
+  const handleDeleteDeck = async (id: string) => {
+    if (id === currentDeckId) setCurrentDeckId(null);
+    try {
+      await deleteDeck(id);
+      // Images no other deck, card on screen or open card editor shows are deleted with it
+      const remaining = await getDecks();
+      await pruneMedia(new Set([
+        ...mediaReferences([...remaining.flatMap(deck => deck.cards), ...cards]),
+        ...draftImageNames(),
+      ]));
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : 'Failed to delete deck');
+    }
+    await refreshDecks();
   };
 
   const handleLoadDeck = (deck: DeckRecord) => {
+    setGenerationError(null);
     setCards(deck.cards);
+    setCurrentDeckId(deck.id);
     setConfig(prev => ({
       ...prev,
       deckName: deck.deckName,
-      difficulty: deck.difficulty,
+      difficulty: deck.difficulty || prev.difficulty,
       tags: deck.tags.join(', '),
+      deckOptions: deck.deckOptions ?? DEFAULT_DECK_OPTIONS,
     }));
     // Scroll to top to see the loaded cards
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -178,23 +392,62 @@ function App() {
           </div>
           <div className="flex items-center gap-3">
             <select
-              value={model}
+              value={provider.id}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className="border border-gray-700 rounded-md px-2 py-1.5 text-sm bg-gray-800 text-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              title="LLM provider"
+            >
+              {PROVIDERS.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            {provider.id !== 'openrouter' && (
+              <input
+                type="url"
+                value={baseUrlDraft}
+                onChange={(e) => setBaseUrlDraft(e.target.value)}
+                onBlur={handleBaseUrlCommit}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleBaseUrlCommit(); }}
+                placeholder="http://localhost:11434/v1"
+                title="OpenAI-compatible base URL"
+                className="border border-gray-700 rounded-md px-3 py-1.5 text-sm w-52 bg-gray-800 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            )}
+            <select
+              value={selectedModel}
               onChange={(e) => setModel(e.target.value)}
+              disabled={modelChoices.length === 0}
+              title={needsVision ? 'Only models that accept images are listed' : undefined}
               className="border border-gray-700 rounded-md px-2 py-1.5 text-sm bg-gray-800 text-gray-200 focus:ring-2 focus:ring-blue-500 outline-none"
             >
-              {models.map((m) => (
+              {modelChoices.length === 0 && (
+                <option value="">{isLoadingModels ? 'Loading models…' : needsVision ? 'No vision models found' : 'No models found'}</option>
+              )}
+              {modelChoices.map((m) => (
                 <option key={m.id} value={m.id}>
                   {m.name} ({m.provider}){m.free ? ' ✦ Free' : ''}
                 </option>
               ))}
             </select>
+            {provider.id !== 'openrouter' && (
+              <button
+                onClick={() => loadModels(provider, apiKey || undefined)}
+                disabled={isLoadingModels}
+                className="p-1.5 text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-md transition-colors"
+                title="Reload models from server"
+              >
+                <RefreshCw size={14} className={clsx(isLoadingModels && 'animate-spin')} />
+              </button>
+            )}
             <input
               type="password"
-              placeholder="OpenRouter API Key"
+              placeholder={provider.requiresKey ? `${provider.name} API Key` : 'API Key (optional)'}
               className="border border-gray-700 rounded-md px-3 py-1.5 text-sm w-56 bg-gray-800 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 outline-none"
               value={apiKey}
               onChange={(e) => setApiKey(e.target.value)}
-            />            <ApiKeyGuide compact />          </div>
+            />
+            {provider.id === 'openrouter' && <ApiKeyGuide compact />}
+          </div>
         </div>
       </header>
 
@@ -210,7 +463,7 @@ function App() {
       </div>
 
       <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
-        {!file && !extractedText ? (
+        {!file && !sourceDoc && !currentDeck ? (
           <div className="space-y-12 relative">
             {/* Floating glow orbs */}
             <motion.div
@@ -263,7 +516,12 @@ function App() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.6, delay: 0.45 }}
             >
-              <FileUploader onFileSelect={handleFileSelect} isLoading={isExtracting} />
+              <FileUploader
+                onFileSelect={handleFileSelect}
+                isLoading={isExtracting}
+                maxSizeMb={maxUploadMb}
+                onMaxSizeChange={(mb) => setMaxUploadMb(saveMaxUploadMb(mb))}
+              />
             </motion.div>
 
             {/* Divider */}
@@ -337,8 +595,6 @@ function App() {
                   { icon: '▶', label: 'YouTube → Flashcards', desc: 'Paste a video link and generate cards from the transcript', color: 'red' },
                   { icon: '🌐', label: 'URL → Flashcards', desc: 'Turn any webpage or article into study material', color: 'blue' },
                   { icon: '🎙', label: 'Audio → Flashcards', desc: 'Upload lectures or podcasts and extract key concepts', color: 'purple' },
-                  { icon: '📸', label: 'Image → Flashcards', desc: 'Snap a photo of handwritten notes and create cards', color: 'amber' },
-                  { icon: '🧠', label: 'Quiz Mode', desc: 'Test yourself on generated cards before exporting', color: 'emerald' },
                   { icon: '🌍', label: 'Multi-language', desc: 'Generate cards in any language or auto-translate them', color: 'cyan' },
                 ].map((feature, idx) => (
                   <motion.div
@@ -379,21 +635,51 @@ function App() {
             >
               <div className="flex items-center gap-3">
                 <div className={clsx("p-2 rounded-lg", file ? "bg-blue-500/10 text-blue-400" : "bg-indigo-500/10 text-indigo-400")}>
-                  {file ? <FileText size={24} /> : <Type size={24} />}
+                  {needsVision ? <ImageIcon size={24} /> : file ? <FileText size={24} /> : <Type size={24} />}
                 </div>
                 <div>
-                  <h2 className="font-semibold text-gray-100">{file ? file.name : 'Pasted Text'}</h2>
-                  <p className="text-sm text-gray-500">{extractedText.length.toLocaleString()} characters</p>
+                  <h2 className="font-semibold text-gray-100">{file ? file.name : sourceDoc ? 'Pasted Text' : currentDeck?.sourceFile}</h2>
+                  <p className="text-sm text-gray-500">
+                    {sourceDoc?.sourceType === 'image' ? (
+                      'Image · read by the selected vision model'
+                    ) : sourceDoc ? (
+                      <>
+                        {sourceDoc.metadata.pageCount !== undefined && `${sourceDoc.metadata.pageCount} ${sourceDoc.metadata.pageLabel?.toLowerCase() ?? 'page'}s · `}
+                        {sourceDoc.sections.length} sections · {sourceDoc.metadata.wordCount.toLocaleString()} words · {sourceDoc.metadata.charCount.toLocaleString()} characters
+                        {sourceDoc.metadata.ocrPages && ` · ${sourceDoc.metadata.ocrPages.length} scanned page${sourceDoc.metadata.ocrPages.length === 1 ? '' : 's'} read with OCR`}
+                      </>
+                    ) : extractionProgress ? (
+                      extractionProgress.stage === 'ocr'
+                        ? `Reading scanned pages with OCR… ${extractionProgress.done} of ${extractionProgress.total}`
+                        : `Extracting… ${extractionProgress.done} of ${extractionProgress.total}`
+                    ) : file ? 'Extracting…' : `Saved deck · ${currentDeck?.cardCount ?? cards.length} cards`}
+                  </p>
                 </div>
               </div>
               <button
-                onClick={() => { setFile(null); setExtractedText(''); setCards([]); setPastedText(''); }}
+                onClick={handleStartOver}
                 className="text-sm text-red-400 hover:text-red-300 font-medium px-3 py-1.5 hover:bg-red-500/10 rounded-lg transition-colors"
               >
                 Start Over
               </button>
             </motion.div>
 
+            {/* Source pages/sections to generate from */}
+            {sourceDoc && sourceDoc.sourceType !== 'image' && sourceDoc.sections.length > 1 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.4, delay: 0.15 }}
+              >
+                <SourcePreview
+                  doc={sourceDoc}
+                  selected={selectedSections}
+                  onChange={setSelectedSections}
+                  disabled={isGenerating}
+                />
+              </motion.div>
+            )}
+
             {/* Configuration */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -414,13 +700,23 @@ function App() {
                 <p className="text-red-400 text-sm font-medium">{generationError}</p>
               )}
 
-              {!cards.length ? (
+              {isGenerating && (
+                <button
+                  onClick={handleCancel}
+                  className="flex items-center gap-2 px-5 py-3 text-sm font-medium text-red-400 border border-red-500/30 rounded-xl hover:bg-red-500/10 transition-colors"
+                >
+                  <Square size={14} />
+                  Cancel
+                </button>
+              )}
+
+              {!cards.length || isGenerating ? (
                 <button
                   onClick={handleGenerate}
-                  disabled={isGenerating || !apiKey || !extractedText}
+                  disabled={isGenerating || needsApiKey || !selectedModel || !sourceDoc || !selectedSections.length}
                   className={clsx(
                     "flex items-center gap-2 px-8 py-3 bg-blue-600 text-white font-medium rounded-xl shadow-md transition-all",
-                    (isGenerating || !apiKey || !extractedText)
+                    (isGenerating || needsApiKey || !selectedModel || !sourceDoc || !selectedSections.length)
                       ? "opacity-50 cursor-not-allowed"
                       : "hover:bg-blue-500 hover:shadow-lg hover:shadow-blue-500/20 transform active:scale-95 animate-pulse-glow"
                   )}
@@ -428,7 +724,9 @@ function App() {
                   {isGenerating ? (
                     <>
                       <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                      Generating...
+                      {progress && progress.totalChunks > 1
+                        ? `Generating... (${progress.completedChunks}/${progress.totalChunks} parts)`
+                        : 'Generating...'}
                     </>
                   ) : (
                     <>
@@ -440,6 +738,24 @@ function App() {
               ) : null}
             </motion.div>
 
+            {/* Chunked generation progress */}
+            {isGenerating && progress && progress.totalChunks > 1 && (
+              <div className="space-y-1.5">
+                <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                  <motion.div
+                    className="h-full bg-blue-500"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(progress.completedChunks / progress.totalChunks) * 100}%` }}
+                    transition={{ duration: 0.3 }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 text-right">
+                  Long document split into {progress.totalChunks} parts · {progress.cardsSoFar} cards so far
+                  {progress.failedChunks > 0 && ` · ${progress.failedChunks} failed`}
+                </p>
+              </div>
+            )}
+
             {/* Results */}
             <AnimatePresence>
             {cards.length > 0 && (
@@ -453,58 +769,35 @@ function App() {
                   <h3 className="text-2xl font-bold text-gray-100">
                     Generated Deck <span className="text-gray-500 font-normal text-lg">({cards.length} cards)</span>
                   </h3>
-                  <motion.button
-                    onClick={handleDownload}
-                    disabled={isDownloading}
-                    whileHover={{ scale: 1.03 }}
-                    whileTap={{ scale: 0.97 }}
-                    className="flex items-center gap-2 px-6 py-2.5 bg-emerald-600 text-white font-medium rounded-xl shadow-md hover:bg-emerald-500 hover:shadow-lg hover:shadow-emerald-500/20 transition-colors"
-                  >
-                    {isDownloading ? (
-                      'Preparing Download...'
-                    ) : (
-                      <>
-                        <Download size={20} />
-                        Download .apkg
-                      </>
-                    )}
-                  </motion.button>
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {cards.map((card, idx) => (
-                    <motion.div
-                      key={idx}
-                      initial={{ opacity: 0, y: 40, scale: 0.9 }}
-                      animate={{ opacity: 1, y: 0, scale: 1 }}
-                      transition={{ duration: 0.4, delay: idx * 0.06, type: 'spring', stiffness: 150, damping: 15 }}
-                      whileHover={{ y: -6, scale: 1.02 }}
-                      className="group relative bg-gray-900 border border-gray-800 rounded-xl p-6 hover:border-blue-500/50 hover:shadow-lg hover:shadow-blue-500/5 transition-colors duration-200"
+                  <div className="flex items-center gap-3">
+                    <motion.button
+                      onClick={() => setStudyDeckId(currentDeckId)}
+                      disabled={!currentDeck || isGenerating}
+                      whileHover={{ scale: 1.03 }}
+                      whileTap={{ scale: 0.97 }}
+                      title={currentDeck ? 'Review this deck with spaced repetition' : 'Only decks saved to your history can be studied'}
+                      className="flex items-center gap-2 px-5 py-2.5 bg-gray-800 text-gray-100 font-medium rounded-xl hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      <div className="absolute top-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity">
-                        {/* Edit/Delete actions could go here */}
-                      </div>
-                      <div className="mb-4">
-                        <span className={clsx(
-                          "text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded inline-block",
-                          card.type === 'cloze' ? "bg-purple-500/15 text-purple-400" : "bg-blue-500/15 text-blue-400"
-                        )}>
-                          {card.type || 'Basic'}
-                        </span>
-                      </div>
-                      <div className="space-y-4">
-                        <div>
-                          <div className="text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Front</div>
-                          <p className="text-gray-100 font-medium leading-relaxed">{card.front}</p>
-                        </div>
-                        <div className="pt-4 border-t border-gray-800">
-                          <div className="text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Back</div>
-                          <p className="text-gray-300 leading-relaxed max-h-32 overflow-y-auto">{card.back}</p>
-                        </div>
-                      </div>
-                    </motion.div>
-                  ))}
+                      <GraduationCap size={20} />
+                      Study
+                    </motion.button>
+                    <ExportMenu
+                      deck={{
+                        id: currentDeckId ?? undefined,
+                        deckName: config.deckName || 'Deck',
+                        cards,
+                        reviews: currentDeck?.reviews,
+                        reviewLog: currentDeck?.reviewLog,
+                        ankiNoteIds: currentDeck?.ankiNoteIds,
+                        deckOptions: currentDeck ? currentDeck.deckOptions : config.deckOptions,
+                      }}
+                      disabled={isGenerating}
+                      onAnkiNoteIds={currentDeckId ? ids => handleSaveAnkiNoteIds(currentDeckId, ids) : undefined}
+                    />
+                  </div>
                 </div>
+
+                <CardGrid cards={cards} onChange={handleCardsChange} readOnly={isGenerating} images={sourceDoc?.images} />
               </motion.div>
             )}
             </AnimatePresence>
@@ -512,13 +805,26 @@ function App() {
         )}
 
         {/* Previous Decks */}
+        {libraryError && (
+          <p className="mt-12 p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">{libraryError}</p>
+        )}
         <DeckHistory
           decks={savedDecks}
           onDelete={handleDeleteDeck}
           onLoad={handleLoadDeck}
+          onStudy={(deck) => setStudyDeckId(deck.id)}
+          onAnkiNoteIds={handleSaveAnkiNoteIds}
         />
       </main>
 
+      {studyDeck && (
+        <StudySession
+          deck={studyDeck}
+          onSave={(reviews, reviewLog) => handleSaveReviews(studyDeck.id, reviews, reviewLog)}
+          onClose={() => setStudyDeckId(null)}
+        />
+      )}
+
       <motion.footer
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
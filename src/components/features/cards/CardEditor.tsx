@@ -0,0 +1,234 @@
+import { useEffect, useRef, useState, type ClipboardEvent, type KeyboardEvent } from 'react';
+import { Check, ImagePlus, Upload, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Flashcard } from '../../../lib/ai';
+import type { DocumentImage } from '../../../lib/document';
+import { blobUrl, imageMarkdown, releaseDraftImages, storeImage } from '../../../lib/media';
+import { loadSelectedNoteType } from '../../../lib/notetypes';
+import { validateCard } from '../../../lib/validation';
+
+interface Props {
+  card: Flashcard;
+  onSave: (card: Flashcard) => void;
+  onCancel: () => void;
+  images?: DocumentImage[];     // pictures from the source document, offered in the image picker
+}
+
+const TYPES = ['basic', 'cloze'] as const;
+
+/**
+ * Inline form for one card. Edits go through the same validation as model output,
+ * so a saved card is always exportable; the card keeps its id so Anki updates the same note.
+ */
+export function CardEditor({ card, onSave, onCancel, images = [] }: Props) {
+  const [type, setType] = useState<'basic' | 'cloze'>(card.type ?? 'basic');
+  const [front, setFront] = useState(card.front);
+  const [back, setBack] = useState(card.back);
+  const [tags, setTags] = useState((card.tags ?? []).join(', '));
+  const [subdeck, setSubdeck] = useState(card.subdeck ?? '');
+  const [fields, setFields] = useState<Record<string, string>>(card.fields ?? {});
+  // The selected note type's extra fields, plus any the card already has from another one
+  const [extraFields] = useState(() => [...new Set([...loadSelectedNoteType().fields.slice(2), ...Object.keys(card.fields ?? {})])]);
+  const [error, setError] = useState<string | null>(null);
+  const [showImages, setShowImages] = useState(false);
+  // Images go into whichever of front and back was focused last
+  const [imageTarget, setImageTarget] = useState<'front' | 'back'>('front');
+  const frontRef = useRef<HTMLTextAreaElement>(null);
+  const backRef = useRef<HTMLTextAreaElement>(null);
+  // Images stored while editing stay safe from pruning until the editor closes, by then saved on the card or dropped
+  const storedImages = useRef<string[]>([]);
+
+  useEffect(() => {
+    const names = storedImages.current;
+    return () => releaseDraftImages(names);
+  }, []);
+
+  const insertImage = async (blob: Blob, label: string) => {
+    try {
+      const name = await storeImage(blob);
+      storedImages.current.push(name);
+      const markdown = imageMarkdown(name, label);
+      const textarea = (imageTarget === 'front' ? frontRef : backRef).current;
+      const setText = imageTarget === 'front' ? setFront : setBack;
+      const at = textarea?.selectionEnd;
+      setText(text => {
+        const pos = at ?? text.length;
+        const before = text.slice(0, pos);
+        return `${before}${before && !before.endsWith('\n') ? '\n' : ''}${markdown}${text.slice(pos)}`;
+      });
+      setShowImages(false);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to add the image');
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const file = [...e.clipboardData.files].find(f => f.type.startsWith('image/'));
+    if (!file) return;
+    e.preventDefault();
+    void insertImage(file, '');
+  };
+
+  const handleSave = () => {
+    const tagList = tags.split(',').map(t => t.trim()).filter(Boolean);
+    const result = validateCard({ type, front, back, tags: tagList, subdeck, fields }, 0);
+    if (!result.card) {
+      setError(result.issues.find(i => i.severity === 'error')?.message ?? 'Card is invalid');
+      return;
+    }
+    // Keep the card's identity (and an imported note's guid) so exports still update the same Anki note
+    const saved = { ...result.card, id: card.id ?? result.card.id };
+    if (card.guid) saved.guid = card.guid;
+    onSave(saved);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') onCancel();
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+  };
+
+  const fieldClass = 'w-full bg-gray-950 border border-gray-800 rounded-lg p-2.5 text-sm text-gray-200 placeholder-gray-600 focus:border-blue-500/50 focus:ring-2 focus:ring-blue-500/20 outline-none resize-y transition-colors';
+  const labelClass = 'text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider block';
+
+  return (
+    <div className="space-y-3" onKeyDown={handleKeyDown}>
+      <div className="flex gap-1.5">
+        {TYPES.map(t => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => setType(t)}
+            className={clsx(
+              'text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded transition-colors',
+              type === t
+                ? t === 'cloze' ? 'bg-purple-500/25 text-purple-300' : 'bg-blue-500/25 text-blue-300'
+                : 'bg-gray-800 text-gray-500 hover:text-gray-300'
+            )}
+          >
+            {t}
+          </button>
+        ))}
+      </div>
+      <div>
+        <label className={labelClass}>{type === 'cloze' ? 'Text' : 'Front'}</label>
+        <textarea
+          ref={frontRef}
+          autoFocus
+          value={front}
+          onChange={(e) => setFront(e.target.value)}
+          onFocus={() => setImageTarget('front')}
+          onPaste={handlePaste}
+          rows={3}
+          placeholder={type === 'cloze' ? 'The {{c1::mitochondria}} is the powerhouse of the cell' : 'Question'}
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>{type === 'cloze' ? 'Extra (optional)' : 'Back'}</label>
+        <textarea
+          ref={backRef}
+          value={back}
+          onChange={(e) => setBack(e.target.value)}
+          onFocus={() => setImageTarget('back')}
+          onPaste={handlePaste}
+          rows={3}
+          placeholder={type === 'cloze' ? 'Shown after the answer is revealed' : 'Answer'}
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowImages(open => !open)}
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-blue-400 transition-colors"
+        >
+          <ImagePlus size={14} />
+          Add image to {imageTarget === 'front' ? (type === 'cloze' ? 'text' : 'front') : (type === 'cloze' ? 'extra' : 'back')}
+        </button>
+        {showImages && (
+          <div className="mt-2 p-2 bg-gray-950 border border-gray-800 rounded-lg">
+            <div className="grid grid-cols-4 gap-1.5 max-h-48 overflow-y-auto">
+              {images.map((image, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => void insertImage(image.blob, image.label)}
+                  title={image.label}
+                  className="aspect-square bg-gray-900 border border-gray-800 hover:border-blue-500/50 rounded overflow-hidden transition-colors"
+                >
+                  <img src={blobUrl(image.blob)} alt={image.label} className="w-full h-full object-contain" />
+                </button>
+              ))}
+              <label
+                className="aspect-square flex flex-col items-center justify-center gap-1 border border-dashed border-gray-700 hover:border-blue-500/50 rounded text-[10px] text-gray-500 hover:text-blue-400 cursor-pointer transition-colors"
+                title="Upload an image; you can also paste one into the field"
+              >
+                <Upload size={14} />
+                Upload
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) void insertImage(file, file.name.replace(/\.[^.]+$/, ''));
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+      <div>
+        <label className={labelClass}>Tags</label>
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="biology, chapter-1"
+          className={fieldClass}
+        />
+      </div>
+      {type === 'basic' && extraFields.map(name => (
+        <div key={name}>
+          <label className={labelClass}>{name}</label>
+          <input
+            value={fields[name] ?? ''}
+            onChange={(e) => setFields(prev => ({ ...prev, [name]: e.target.value }))}
+            className={fieldClass}
+          />
+        </div>
+      ))}
+      <div>
+        <label className={labelClass}>Subdeck</label>
+        <input
+          value={subdeck}
+          onChange={(e) => setSubdeck(e.target.value)}
+          placeholder="Chapter 1::Cells"
+          className={fieldClass}
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-lg transition-colors"
+        >
+          <X size={14} />
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors"
+        >
+          <Check size={14} />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Copy, GripVertical, Pencil, Plus, Trash2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Flashcard } from '../../../lib/ai';
+import type { DocumentImage } from '../../../lib/document';
+import { CardEditor } from './CardEditor';
+import { ClozeText } from './ClozeText';
+import { MarkdownText } from './MarkdownText';
+
+interface Props {
+  cards: Flashcard[];
+  onChange: (cards: Flashcard[]) => void;
+  readOnly?: boolean;     // e.g. while cards are still streaming in
+  images?: DocumentImage[];
+}
+
+/** Index used for the "add card" editor, which isn't part of the list yet */
+const NEW_CARD = -1;
+
+/**
+ * The results grid: shows each card and lets the user edit, duplicate, delete,
+ * add and drag to reorder. Every change is reported as a whole new card list.
+ */
+export function CardGrid({ cards, onChange, readOnly = false, images }: Props) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const isEditing = editingIndex !== null;
+  const canDrag = !readOnly && !isEditing;
+
+  const saveCard = (idx: number, card: Flashcard) => {
+    onChange(idx === NEW_CARD ? [...cards, card] : cards.map((c, i) => (i === idx ? card : c)));
+    setEditingIndex(null);
+  };
+
+  const duplicateCard = (idx: number) => {
+    // The copy needs its own id (and no imported guid), otherwise Anki would treat both as the same note
+    const copy = { ...cards[idx], id: crypto.randomUUID() };
+    delete copy.guid;
+    onChange([...cards.slice(0, idx + 1), copy, ...cards.slice(idx + 1)]);
+  };
+
+  const deleteCard = (idx: number) => {
+    onChange(cards.filter((_, i) => i !== idx));
+  };
+
+  const moveCard = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...cards];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {cards.map((card, idx) => (
+        <div
+          key={card.id ?? idx}
+          draggable={canDrag}
+          onDragStart={(e) => {
+            setDragIndex(idx);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            setOverIndex(idx);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragIndex !== null) moveCard(dragIndex, idx);
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={clsx(
+            'rounded-xl transition-opacity',
+            dragIndex === idx && 'opacity-40',
+            overIndex === idx && dragIndex !== idx && 'ring-2 ring-blue-500/60',
+            canDrag && 'cursor-grab active:cursor-grabbing'
+          )}
+        >
+          <motion.div
+            initial={{ opacity: 0, y: 40, scale: 0.9 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            transition={{ duration: 0.4, delay: Math.min(idx, 10) * 0.06, type: 'spring', stiffness: 150, damping: 15 }}
+            whileHover={editingIndex === idx ? undefined : { y: -6, scale: 1.02 }}
+            className="group relative h-full bg-gray-900 border border-gray-800 rounded-xl p-6 hover:border-blue-500/50 hover:shadow-lg hover:shadow-blue-500/5 transition-colors duration-200"
+          >
+            {editingIndex === idx ? (
+              <CardEditor card={card} images={images} onSave={(c) => saveCard(idx, c)} onCancel={() => setEditingIndex(null)} />
+            ) : (
+              <>
+                {!readOnly && (
+                  <div className="absolute top-4 right-4 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <span className="p-1.5 text-gray-600" title="Drag to reorder">
+                      <GripVertical size={14} />
+                    </span>
+                    <button
+                      onClick={() => setEditingIndex(idx)}
+                      disabled={isEditing}
+                      className="p-1.5 text-gray-400 hover:text-blue-400 hover:bg-blue-500/10 rounded-lg transition-colors disabled:opacity-40"
+                      title="Edit"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => duplicateCard(idx)}
+                      disabled={isEditing}
+                      className="p-1.5 text-gray-400 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors disabled:opacity-40"
+                      title="Duplicate"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={() => deleteCard(idx)}
+                      disabled={isEditing}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-40"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                )}
+                <CardFace card={card} />
+              </>
+            )}
+          </motion.div>
+        </div>
+      ))}
+
+      {!readOnly && (
+        editingIndex === NEW_CARD ? (
+          <div className="bg-gray-900 border border-blue-500/50 rounded-xl p-6">
+            <CardEditor
+              card={{ front: '', back: '', type: 'basic' }}
+              images={images}
+              onSave={(c) => saveCard(NEW_CARD, c)}
+              onCancel={() => setEditingIndex(null)}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => setEditingIndex(NEW_CARD)}
+            disabled={isEditing}
+            className="flex flex-col items-center justify-center gap-2 min-h-40 border-2 border-dashed border-gray-800 rounded-xl text-gray-500 hover:text-blue-400 hover:border-blue-500/50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Plus size={22} />
+            <span className="text-sm font-medium">Add card</span>
+          </button>
+        )
+      )}
+    </div>
+  );
+}
+
+function CardFace({ card }: { card: Flashcard }) {
+  return (
+    <>
+      <div className="mb-4 flex items-center gap-2 min-w-0">
+        <span className={clsx(
+          "text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded inline-block",
+          card.type === 'cloze' ? "bg-purple-500/15 text-purple-400" : "bg-blue-500/15 text-blue-400"
+        )}>
+          {card.type || 'Basic'}
+        </span>
+        {card.subdeck && (
+          <span className="text-[10px] font-medium px-2 py-1 bg-gray-800 text-gray-400 rounded truncate" title={card.subdeck}>
+            {card.subdeck.replace(/::/g, ' › ')}
+          </span>
+        )}
+      </div>
+      <div className="space-y-4">
+        <div>
+          <div className="text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Front</div>
+          {card.type === 'cloze'
+            ? <ClozeText text={card.front} className="text-gray-100 font-medium leading-relaxed" />
+            : <MarkdownText text={card.front} className="text-gray-100 font-medium leading-relaxed" />}
+        </div>
+        <div className="pt-4 border-t border-gray-800">
+          <div className="text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">Back</div>
+          {card.type === 'cloze' ? (
+            <div className="text-gray-300 leading-relaxed max-h-32 overflow-y-auto space-y-2">
+              <ClozeText text={card.front} revealed />
+              {card.back && <MarkdownText text={card.back} className="text-sm text-gray-400" />}
+            </div>
+          ) : (
+            <MarkdownText text={card.back} className="text-gray-300 leading-relaxed max-h-32 overflow-y-auto" />
+          )}
+        </div>
+        {card.type !== 'cloze' && card.fields && Object.entries(card.fields).map(([name, text]) => (
+          <div key={name}>
+            <div className="text-xs font-semibold text-gray-500 mb-1 uppercase tracking-wider">{name}</div>
+            <MarkdownText text={text} className="text-sm text-gray-400" />
+          </div>
+        ))}
+        {card.tags && card.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {card.tags.map(tag => (
+              <span key={tag} className="text-[10px] font-medium px-1.5 py-0.5 bg-gray-800 text-gray-400 rounded">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
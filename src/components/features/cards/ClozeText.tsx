@@ -0,0 +1,23 @@
+import { clsx } from 'clsx';
+import { renderClozeMarkdown } from '../../../lib/markdown';
+import { useMediaHtml } from './useMediaHtml';
+
+interface Props {
+  text: string;
+  revealed?: boolean;
+  className?: string;
+}
+
+/**
+ * Render cloze text the way Anki shows it: deletions become [...] (or [hint])
+ * on the front, and the highlighted answers on the back. The rest is Markdown.
+ */
+export function ClozeText({ text, revealed = false, className }: Props) {
+  const html = useMediaHtml(renderClozeMarkdown(text, revealed));
+  return (
+    <div
+      className={clsx('card-markdown', className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
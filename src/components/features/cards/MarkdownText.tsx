@@ -0,0 +1,19 @@
+import { clsx } from 'clsx';
+import { renderMarkdown } from '../../../lib/markdown';
+import { useMediaHtml } from './useMediaHtml';
+
+interface Props {
+  text: string;
+  className?: string;
+}
+
+/** A card field rendered from Markdown, with the same sanitized HTML the Anki export uses */
+export function MarkdownText({ text, className }: Props) {
+  const html = useMediaHtml(renderMarkdown(text));
+  return (
+    <div
+      className={clsx('card-markdown', className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { hasMediaUrl, loadMediaUrls, mediaNamesIn, resolveMediaUrls } from '../../../lib/media';
+
+/** Rendered card HTML with its images pointed at the stored files, re-rendering once they're loaded */
+export function useMediaHtml(html: string): string {
+  const [, setLoaded] = useState(0);
+  const pending = mediaNamesIn(html).filter(name => !hasMediaUrl(name)).join('\n');
+
+  useEffect(() => {
+    if (!pending) return;
+    let active = true;
+    loadMediaUrls(pending.split('\n'))
+      .then(() => { if (active) setLoaded(n => n + 1); })
+      .catch(err => console.error('[Flashy] Failed to load card images:', err));
+    return () => { active = false; };
+  }, [pending]);
+
+  return resolveMediaUrls(html);
+}
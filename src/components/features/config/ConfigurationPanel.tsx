@@ -1,5 +1,23 @@
-import React from "react";
-import { Settings, Tag } from "lucide-react";
+import React, { useState } from "react";
+import { Settings, Tag, Wrench, Layers, FolderTree, CalendarClock, Save, Trash2 } from "lucide-react";
+import type { CardTypeMode } from "../../../lib/ai";
+import {
+  BUILT_IN_DECK_OPTIONS,
+  deleteDeckOptionPreset,
+  formatSteps,
+  loadDeckOptionPresets,
+  parseSteps,
+  sameDeckOptions,
+  saveDeckOptionPreset,
+  validateDeckOptions,
+  type DeckOptions,
+} from "../../../lib/deckoptions";
+
+const CARD_TYPES: { value: CardTypeMode; label: string }[] = [
+  { value: "basic", label: "Basic" },
+  { value: "cloze", label: "Cloze" },
+  { value: "mixed", label: "Mixed" },
+];
 
 interface ConfigurationPanelProps {
   config: {
@@ -8,6 +26,10 @@ interface ConfigurationPanelProps {
     difficulty: string;
     focusAreas: string;
     tags: string;
+    cardType: CardTypeMode;
+    repairAttempts: number;
+    subdecksBySection: boolean;
+    deckOptions: DeckOptions;
   };
   onChange: (key: string, value: any) => void;
 }
@@ -97,6 +119,90 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
           />
         </div>
 
+        {/* Card Type */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex items-center gap-1">
+            <Layers size={14} />
+            <span>Card Type</span>
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {CARD_TYPES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onChange("cardType", value)}
+                className={`text-sm py-2 rounded-lg border transition-all ${
+                  config.cardType === value
+                    ? "bg-purple-500/15 border-purple-500 text-purple-400 font-medium"
+                    : "border-gray-700 text-gray-400 hover:border-gray-600"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Cloze cards hide key terms in a sentence, e.g. {"{{c1::ATP}}"}
+          </p>
+        </div>
+
+        {/* Auto-repair */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex items-center gap-1">
+            <Wrench size={14} />
+            <span>Auto-repair attempts</span>
+          </label>
+          <div className="grid grid-cols-4 gap-2">
+            {[0, 1, 2, 3].map((n) => (
+              <button
+                key={n}
+                onClick={() => onChange("repairAttempts", n)}
+                className={`text-sm py-2 rounded-lg border transition-all ${
+                  config.repairAttempts === n
+                    ? "bg-blue-500/15 border-blue-500 text-blue-400 font-medium"
+                    : "border-gray-700 text-gray-400 hover:border-gray-600"
+                }`}
+              >
+                {n === 0 ? "Off" : n}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Ask the model to fix malformed cards or unparseable output
+          </p>
+        </div>
+
+        {/* Subdecks */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-300 flex items-center gap-1">
+            <FolderTree size={14} />
+            <span>Subdecks</span>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {[false, true].map((enabled) => (
+              <button
+                key={String(enabled)}
+                onClick={() => onChange("subdecksBySection", enabled)}
+                className={`text-sm py-2 rounded-lg border transition-all ${
+                  config.subdecksBySection === enabled
+                    ? "bg-blue-500/15 border-blue-500 text-blue-400 font-medium"
+                    : "border-gray-700 text-gray-400 hover:border-gray-600"
+                }`}
+              >
+                {enabled ? "One per section" : "Off"}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            File cards under Deck::Section, using the document's top-level headings
+          </p>
+        </div>
+
+        {/* Anki Deck Options */}
+        <DeckOptionsSection
+          options={config.deckOptions}
+          onChange={(options) => onChange("deckOptions", options)}
+        />
+
         {/* Focus Areas */}
         <div className="col-span-1 md:col-span-2 space-y-2">
           <label className="text-sm font-medium text-gray-300">
@@ -113,3 +219,179 @@ export const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
     </div>
   );
 };
+
+const NUMBER_FIELDS = [
+  { key: "newPerDay", label: "New cards/day" },
+  { key: "reviewsPerDay", label: "Maximum reviews/day" },
+  { key: "graduatingInterval", label: "Graduating interval (days)" },
+  { key: "easyInterval", label: "Easy interval (days)" },
+  { key: "maximumInterval", label: "Maximum interval (days)" },
+  { key: "leechThreshold", label: "Leech threshold" },
+] as const;
+
+const STEP_FIELDS = [
+  { key: "learningSteps", label: "Learning steps" },
+  { key: "relearningSteps", label: "Relearning steps" },
+] as const;
+
+type OptionsForm = Record<(typeof NUMBER_FIELDS)[number]["key"] | (typeof STEP_FIELDS)[number]["key"], string>;
+
+function toForm(options: DeckOptions): OptionsForm {
+  return {
+    newPerDay: String(options.newPerDay),
+    reviewsPerDay: String(options.reviewsPerDay),
+    graduatingInterval: String(options.graduatingInterval),
+    easyInterval: String(options.easyInterval),
+    maximumInterval: String(options.maximumInterval),
+    leechThreshold: String(options.leechThreshold),
+    learningSteps: formatSteps(options.learningSteps),
+    relearningSteps: formatSteps(options.relearningSteps),
+  };
+}
+
+// Throws with a message for the first field that doesn't make sense
+function fromForm(form: OptionsForm, name: string): DeckOptions {
+  const number = (text: string) => (text.trim() ? Number(text) : NaN);
+  const steps = (text: string, label: string) => {
+    const parsed = parseSteps(text);
+    if (!parsed) throw new Error(`${label} should look like "1m 10m 1d"`);
+    return parsed;
+  };
+  return validateDeckOptions({
+    name,
+    newPerDay: number(form.newPerDay),
+    reviewsPerDay: number(form.reviewsPerDay),
+    learningSteps: steps(form.learningSteps, "Learning steps"),
+    relearningSteps: steps(form.relearningSteps, "Relearning steps"),
+    graduatingInterval: number(form.graduatingInterval),
+    easyInterval: number(form.easyInterval),
+    maximumInterval: number(form.maximumInterval),
+    leechThreshold: number(form.leechThreshold),
+  });
+}
+
+/** Preset picker and editor for the Anki options group written into exports */
+const DeckOptionsSection: React.FC<{
+  options: DeckOptions;
+  onChange: (options: DeckOptions) => void;
+}> = ({ options, onChange }) => {
+  const [presets, setPresets] = useState(loadDeckOptionPresets);
+  const [form, setForm] = useState(() => toForm(options));
+  const [shownOptions, setShownOptions] = useState(options);
+  const [presetName, setPresetName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Options picked elsewhere (a preset, a loaded deck) replace whatever is being typed
+  if (options !== shownOptions) {
+    setShownOptions(options);
+    setForm(toForm(options));
+    setError(null);
+  }
+
+  const isCustomPreset = !BUILT_IN_DECK_OPTIONS.some((p) => p.name === options.name)
+    && presets.some((p) => p.name === options.name && sameDeckOptions(p, options));
+
+  // Only valid options reach the deck; while a field is invalid the last good options stay in use
+  const handleEdit = (key: keyof OptionsForm, text: string) => {
+    const next = { ...form, [key]: text };
+    setForm(next);
+    try {
+      const edited = fromForm(next, "Custom");
+      setError(null);
+      const unchanged = sameDeckOptions(edited, options);
+      setShownOptions(unchanged ? options : edited);
+      if (!unchanged) onChange(edited);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSavePreset = () => {
+    try {
+      const saved = saveDeckOptionPreset({ ...options, name: presetName });
+      setPresets(loadDeckOptionPresets());
+      setPresetName("");
+      onChange(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDeletePreset = () => {
+    deleteDeckOptionPreset(options.name);
+    setPresets(loadDeckOptionPresets());
+  };
+
+  const inputClass = "w-full border border-gray-700 rounded-lg px-3 py-2 text-sm bg-gray-800 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="col-span-1 md:col-span-2 space-y-3">
+      <label className="text-sm font-medium text-gray-300 flex items-center gap-1">
+        <CalendarClock size={14} />
+        <span>Anki Deck Options</span>
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {presets.map((preset) => (
+          <button
+            key={preset.name}
+            onClick={() => onChange(preset)}
+            className={`text-sm px-3 py-2 rounded-lg border transition-all ${
+              preset.name === options.name && sameDeckOptions(preset, options)
+                ? "bg-blue-500/15 border-blue-500 text-blue-400 font-medium"
+                : "border-gray-700 text-gray-400 hover:border-gray-600"
+            }`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[...STEP_FIELDS, ...NUMBER_FIELDS].map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <label className="text-xs text-gray-500">{label}</label>
+            <input
+              type="text"
+              inputMode={key.endsWith("Steps") ? "text" : "numeric"}
+              value={form[key]}
+              onChange={(e) => handleEdit(key, e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          className={`${inputClass} max-w-56`}
+          placeholder="Preset name"
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim() || error !== null}
+          className="flex items-center gap-1.5 text-sm px-3 py-2 rounded-lg border border-gray-700 text-gray-300 hover:border-gray-600 transition-all disabled:opacity-40"
+        >
+          <Save size={14} />
+          Save as preset
+        </button>
+        {isCustomPreset && (
+          <button
+            onClick={handleDeletePreset}
+            className="flex items-center gap-1.5 text-sm px-3 py-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-all"
+          >
+            <Trash2 size={14} />
+            Delete "{options.name}"
+          </button>
+        )}
+      </div>
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Exported decks get their own options group with these settings. Steps take m, h or d, e.g. "1m 10m 1d".
+        </p>
+      )}
+    </div>
+  );
+};
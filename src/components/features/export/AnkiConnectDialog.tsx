@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { CheckCircle2, Send, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import {
+  countByStatus,
+  loadAnkiConnectUrl,
+  pushDeck,
+  saveAnkiConnectUrl,
+  type PushableDeck,
+  type PushResult,
+  type PushStatus,
+} from '../../../lib/ankiconnect';
+import { loadCardMedia } from '../../../lib/media';
+import { loadSelectedNoteType } from '../../../lib/notetypes';
+
+interface Props {
+  deck: PushableDeck;
+  onNoteIds?: (noteIds: Record<string, number>) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<PushStatus, { label: string; className: string }> = {
+  added: { label: 'added', className: 'bg-emerald-500/15 text-emerald-400' },
+  updated: { label: 'updated', className: 'bg-blue-500/15 text-blue-400' },
+  duplicate: { label: 'duplicates', className: 'bg-amber-500/15 text-amber-400' },
+  failed: { label: 'failed', className: 'bg-red-500/15 text-red-400' },
+};
+
+/**
+ * Send a deck to a running Anki over AnkiConnect and show what happened to each note.
+ * The note ids Anki hands back are saved with the deck, so the next send updates instead of adding.
+ */
+export function AnkiConnectDialog({ deck, onNoteIds, onClose }: Props) {
+  const [url, setUrl] = useState(loadAnkiConnectUrl);
+  const [noteType] = useState(loadSelectedNoteType);
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<PushResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    const target = saveAnkiConnectUrl(url);
+    setUrl(target);
+    setIsSending(true);
+    setError(null);
+    setResult(null);
+    try {
+      const pushed = await pushDeck(deck, target, noteType, await loadCardMedia(deck.cards));
+      setResult(pushed);
+      await onNoteIds?.(pushed.noteIds);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to send the deck to Anki');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const counts = result && countByStatus(result.notes);
+  const problems = result?.notes.filter(n => n.status === 'duplicate' || n.status === 'failed') ?? [];
+
+  // Portalled to the body: the menu it opens from sits inside animated (transformed) containers
+  return createPortal(
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 bg-gray-950/80 backdrop-blur-sm flex items-center justify-center p-4"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="w-full max-w-lg bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl p-6 space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-emerald-500/10 rounded-lg text-emerald-400">
+              <Send size={20} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="font-semibold text-gray-100">Send to Anki</h2>
+              <p className="text-sm text-gray-500 truncate">{deck.deckName} · {deck.cards.length} cards</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor="ankiconnect-url" className="text-sm font-medium text-gray-300">AnkiConnect URL</label>
+          <input
+            id="ankiconnect-url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            disabled={isSending}
+            className="w-full px-3 py-2 bg-gray-950 border border-gray-800 rounded-lg text-sm text-gray-100 focus:outline-none focus:border-emerald-500/60"
+          />
+          <p className="text-xs text-gray-500">
+            Anki must be running with the AnkiConnect add-on (code 2055492159). Cards sent before are updated, new ones are added.
+            Basic cards use the note type "Flashy {noteType.name}".
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {counts && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(STATUS_STYLES) as PushStatus[]).filter(status => counts[status]).map(status => (
+                <span key={status} className={clsx('text-xs font-semibold px-2 py-1 rounded', STATUS_STYLES[status].className)}>
+                  {counts[status]} {STATUS_STYLES[status].label}
+                </span>
+              ))}
+            </div>
+            {problems.length > 0 ? (
+              <ul className="max-h-48 overflow-y-auto space-y-1.5 text-xs">
+                {problems.map((note, idx) => (
+                  <li key={note.card.id ?? idx} className="flex gap-2">
+                    <span className={clsx('shrink-0 font-semibold', note.status === 'duplicate' ? 'text-amber-400' : 'text-red-400')}>
+                      {note.status === 'duplicate' ? 'Duplicate' : 'Failed'}
+                    </span>
+                    <span className="text-gray-400 truncate" title={note.error}>
+                      {note.card.front}
+                      {note.status === 'failed' && <span className="text-gray-600"> — {note.error}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-emerald-400">
+                <CheckCircle2 size={16} />
+                Every card is in Anki.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSend}
+            disabled={isSending || !deck.cards.length}
+            className="flex items-center gap-2 px-6 py-2.5 bg-emerald-600 text-white font-medium rounded-xl hover:bg-emerald-500 transition-colors disabled:opacity-50"
+          >
+            <Send size={16} />
+            {isSending ? 'Sending...' : result ? 'Send Again' : 'Send'}
+          </button>
+        </div>
+      </div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, Download, Palette, Send } from 'lucide-react';
+import { clsx } from 'clsx';
+import { EXPORTERS, exportDeck, type ExportableDeck, type ExportFormat } from '../../../lib/exporters';
+import { loadSelectedNoteType } from '../../../lib/notetypes';
+import { AnkiConnectDialog } from './AnkiConnectDialog';
+import { NoteTypeDialog } from './NoteTypeDialog';
+
+interface Props {
+  deck: ExportableDeck;
+  disabled?: boolean;
+  compact?: boolean;      // icon-only, for rows in the deck history
+  onAnkiNoteIds?: (noteIds: Record<string, number>) => Promise<void>;   // saves AnkiConnect note ids on the deck
+}
+
+/**
+ * Split download button: the main half exports an Anki package,
+ * the chevron opens a menu with every other format.
+ */
+export function ExportMenu({ deck, disabled = false, compact = false, onAnkiNoteIds }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isStyling, setIsStyling] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setExporting(format);
+    try {
+      await exportDeck(deck, format);
+    } catch (error) {
+      console.error(error);
+      alert(`Failed to export deck${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const isBusy = disabled || exporting !== null;
+
+  return (
+    <div ref={rootRef} className="relative flex">
+      {compact ? (
+        <>
+          <button
+            onClick={() => handleExport('apkg')}
+            disabled={isBusy}
+            className="p-2 text-gray-400 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-l-lg transition-colors"
+            title="Download .apkg"
+          >
+            <Download size={16} />
+          </button>
+          <button
+            onClick={() => setIsOpen(open => !open)}
+            disabled={isBusy}
+            className="px-0.5 text-gray-500 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-r-lg transition-colors"
+            title="Other formats"
+          >
+            <ChevronDown size={14} />
+          </button>
+        </>
+      ) : (
+        <>
+          <motion.button
+            onClick={() => handleExport('apkg')}
+            disabled={isBusy}
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+            className="flex items-center gap-2 pl-6 pr-4 py-2.5 bg-emerald-600 text-white font-medium rounded-l-xl shadow-md hover:bg-emerald-500 hover:shadow-lg hover:shadow-emerald-500/20 transition-colors"
+          >
+            {exporting ? (
+              'Preparing Download...'
+            ) : (
+              <>
+                <Download size={20} />
+                Download .apkg
+              </>
+            )}
+          </motion.button>
+          <button
+            onClick={() => setIsOpen(open => !open)}
+            disabled={isBusy}
+            className="px-2.5 bg-emerald-600 text-white rounded-r-xl border-l border-emerald-500/60 shadow-md hover:bg-emerald-500 transition-colors"
+            title="Other formats"
+          >
+            <ChevronDown size={18} className={clsx('transition-transform', isOpen && 'rotate-180')} />
+          </button>
+        </>
+      )}
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-full mt-2 w-72 z-30 bg-gray-900 border border-gray-800 rounded-xl shadow-xl overflow-hidden"
+          >
+            {EXPORTERS.map(exporter => (
+              <button
+                key={exporter.id}
+                onClick={() => handleExport(exporter.id)}
+                className="w-full text-left px-4 py-2.5 hover:bg-gray-800 transition-colors"
+              >
+                <div className="text-sm font-medium text-gray-100">{exporter.label}</div>
+                <div className="text-xs text-gray-500">{exporter.description}</div>
+              </button>
+            ))}
+            <button
+              onClick={() => { setIsOpen(false); setIsSending(true); }}
+              className="w-full text-left px-4 py-2.5 border-t border-gray-800 hover:bg-gray-800 transition-colors"
+            >
+              <div className="flex items-center gap-1.5 text-sm font-medium text-gray-100">
+                <Send size={13} />
+                Send to Anki
+              </div>
+              <div className="text-xs text-gray-500">Add or update notes in a running Anki via AnkiConnect</div>
+            </button>
+            <button
+              onClick={() => { setIsOpen(false); setIsStyling(true); }}
+              className="w-full text-left px-4 py-2.5 border-t border-gray-800 hover:bg-gray-800 transition-colors"
+            >
+              <div className="flex items-center gap-1.5 text-sm font-medium text-gray-100">
+                <Palette size={13} />
+                Note type
+              </div>
+              <div className="text-xs text-gray-500">{loadSelectedNoteType().name} · templates and card styling</div>
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {isSending && <AnkiConnectDialog deck={deck} onNoteIds={onAnkiNoteIds} onClose={() => setIsSending(false)} />}
+      {isStyling && <NoteTypeDialog cards={deck.cards} deckName={deck.deckName} onClose={() => setIsStyling(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { Check, Copy, Moon, Palette, Plus, Trash2, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { Flashcard } from '../../../lib/ai';
+import {
+  copyNoteType,
+  deleteNoteType,
+  loadNoteTypes,
+  loadSelectedNoteType,
+  renderNoteCards,
+  saveNoteType,
+  selectNoteType,
+  type NoteTypePreset,
+} from '../../../lib/notetypes';
+
+interface Props {
+  cards: Flashcard[];     // the deck's cards, previewed with the preset
+  deckName: string;
+  onClose: () => void;
+}
+
+const SAMPLE_CARD: Flashcard = {
+  front: 'Which organelle produces most of a cell\'s **ATP**?',
+  back: 'The mitochondrion, through `oxidative phosphorylation`',
+  tags: ['biology'],
+};
+
+/**
+ * Pick the note type basic cards are exported with, and edit copies of the built-in presets. The preview
+ * renders the deck's cards through the preset's templates and CSS in a sandboxed frame, as Anki would.
+ */
+export function NoteTypeDialog({ cards, deckName, onClose }: Props) {
+  const [presets, setPresets] = useState(loadNoteTypes);
+  const [selectedId, setSelectedId] = useState(() => loadSelectedNoteType().id);
+  const [draft, setDraft] = useState(loadSelectedNoteType);
+  const [templateIdx, setTemplateIdx] = useState(0);
+  const [sampleIdx, setSampleIdx] = useState(0);
+  const [isNight, setIsNight] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stored = presets.find(p => p.id === draft.id);
+  const isDirty = !draft.builtIn && JSON.stringify(stored) !== JSON.stringify(draft);
+  const template = draft.templates[Math.min(templateIdx, draft.templates.length - 1)];
+
+  const basicCards = cards.filter(c => c.type !== 'cloze');
+  const extraFields = draft.fields.slice(2).filter(f => f.trim());
+  const samples = basicCards.length ? basicCards : [{
+    ...SAMPLE_CARD,
+    fields: Object.fromEntries(extraFields.map(f => [f, `${f} goes here`])),
+  }];
+  const sample = samples[sampleIdx % samples.length];
+  const rendered = draft.fields.filter(f => f.trim()).length >= 2 ? renderNoteCards(draft, sample, deckName) : [];
+
+  const show = (preset: NoteTypePreset) => {
+    setDraft(preset);
+    setTemplateIdx(0);
+    setError(null);
+  };
+
+  const update = (changes: Partial<NoteTypePreset>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateTemplate = (changes: Partial<NoteTypePreset['templates'][number]>) => {
+    update({ templates: draft.templates.map(t => (t === template ? { ...t, ...changes } : t)) });
+  };
+
+  // Saving can fail validation; the error is shown and nothing is stored
+  const persist = (preset: NoteTypePreset): NoteTypePreset | null => {
+    try {
+      const saved = saveNoteType(preset);
+      setPresets(loadNoteTypes());
+      setDraft(saved);
+      setError(null);
+      return saved;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the note type');
+      return null;
+    }
+  };
+
+  const handleCopy = () => {
+    const copy = persist(copyNoteType(draft, presets));
+    if (copy) setTemplateIdx(0);
+  };
+
+  const handleUse = () => {
+    const preset = isDirty ? persist(draft) : draft;
+    if (!preset) return;
+    selectNoteType(preset.id);
+    setSelectedId(preset.id);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the note type "${draft.name}"?`)) return;
+    deleteNoteType(draft.id);
+    setPresets(loadNoteTypes());
+    const selected = loadSelectedNoteType();
+    setSelectedId(selected.id);
+    show(selected);
+  };
+
+  const handleAddTemplate = () => {
+    const name = `Card ${draft.templates.length + 1}`;
+    const [front, back] = draft.fields;
+    update({ templates: [...draft.templates, { name, qfmt: `{{${back}}}`, afmt: `{{FrontSide}}<hr id=answer>{{${front}}}` }] });
+    setTemplateIdx(draft.templates.length);
+  };
+
+  const handleRemoveTemplate = () => {
+    update({ templates: draft.templates.filter(t => t !== template) });
+    setTemplateIdx(0);
+  };
+
+  const fieldClass = 'w-full bg-gray-950 border border-gray-800 rounded-lg px-3 py-2 text-sm text-gray-200 font-mono focus:outline-none focus:border-blue-500/60 disabled:text-gray-400';
+  const labelClass = 'text-xs font-semibold text-gray-500 uppercase tracking-wider block mb-1';
+
+  return createPortal(
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 bg-gray-950/80 backdrop-blur-sm flex items-center justify-center p-4"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-800 rounded-2xl shadow-2xl p-6 space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-500/10 rounded-lg text-purple-400">
+              <Palette size={20} />
+            </div>
+            <div>
+              <h2 className="font-semibold text-gray-100">Note type</h2>
+              <p className="text-sm text-gray-500">Fields, card templates and styling for basic cards in Anki</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-lg transition-colors"
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => show(preset)}
+              className={clsx(
+                'flex items-center gap-1.5 text-sm px-3 py-1.5 rounded-lg border transition-colors',
+                preset.id === draft.id
+                  ? 'bg-blue-500/15 border-blue-500 text-blue-400'
+                  : 'border-gray-700 text-gray-400 hover:border-gray-600',
+              )}
+            >
+              {preset.id === selectedId && <Check size={14} />}
+              {preset.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Editor */}
+          <div className="space-y-4">
+            {draft.builtIn && (
+              <p className="text-xs text-gray-500">Built-in note types can't be changed. Copy one to edit its fields, templates or CSS.</p>
+            )}
+            <div>
+              <label className={labelClass}>Name</label>
+              <input value={draft.name} disabled={draft.builtIn} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Fields (front, back, then any extra)</label>
+              <input
+                value={draft.fields.join(',')}
+                disabled={draft.builtIn}
+                onChange={(e) => update({ fields: e.target.value.split(',') })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <div className="flex items-center gap-1.5 mb-2">
+                {draft.templates.map((t, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => setTemplateIdx(idx)}
+                    className={clsx(
+                      'text-xs font-medium px-2 py-1 rounded transition-colors',
+                      t === template ? 'bg-gray-700 text-gray-100' : 'bg-gray-800 text-gray-500 hover:text-gray-300',
+                    )}
+                  >
+                    {t.name || 'Untitled'}
+                  </button>
+                ))}
+                {!draft.builtIn && (
+                  <button
+                    onClick={handleAddTemplate}
+                    className="p-1 text-gray-500 hover:text-gray-300 hover:bg-gray-800 rounded transition-colors"
+                    title="Add card template"
+                  >
+                    <Plus size={14} />
+                  </button>
+                )}
+              </div>
+              <div className="space-y-2">
+                {!draft.builtIn && (
+                  <div className="flex gap-2">
+                    <input
+                      value={template.name}
+                      onChange={(e) => updateTemplate({ name: e.target.value })}
+                      className={fieldClass}
+                      placeholder="Template name"
+                    />
+                    {draft.templates.length > 1 && (
+                      <button
+                        onClick={handleRemoveTemplate}
+                        className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                        title="Remove card template"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                )}
+                <label className={labelClass}>Front template</label>
+                <textarea
+                  value={template.qfmt}
+                  disabled={draft.builtIn}
+                  onChange={(e) => updateTemplate({ qfmt: e.target.value })}
+                  rows={2}
+                  className={clsx(fieldClass, 'resize-y')}
+                />
+                <label className={labelClass}>Back template</label>
+                <textarea
+                  value={template.afmt}
+                  disabled={draft.builtIn}
+                  onChange={(e) => updateTemplate({ afmt: e.target.value })}
+                  rows={3}
+                  className={clsx(fieldClass, 'resize-y')}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>CSS</label>
+              <textarea
+                value={draft.css}
+                disabled={draft.builtIn}
+                onChange={(e) => update({ css: e.target.value })}
+                rows={8}
+                className={clsx(fieldClass, 'resize-y text-xs')}
+              />
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className={labelClass}>Preview</span>
+              <div className="flex items-center gap-1">
+                {samples.length > 1 && (
+                  <button
+                    onClick={() => setSampleIdx(idx => idx + 1)}
+                    className="text-xs px-2 py-1 text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded transition-colors"
+                  >
+                    Card {(sampleIdx % samples.length) + 1} of {samples.length} →
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsNight(night => !night)}
+                  className={clsx(
+                    'p-1.5 rounded transition-colors',
+                    isNight ? 'bg-gray-700 text-gray-100' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800',
+                  )}
+                  title="Night mode"
+                >
+                  <Moon size={14} />
+                </button>
+              </div>
+            </div>
+            {rendered.length ? rendered.map(card => (
+              <div key={card.ord} className="space-y-1.5">
+                {rendered.length > 1 && <div className="text-xs text-gray-400">{card.template.name}</div>}
+                <div className="grid grid-cols-2 gap-2">
+                  <CardPreviewFrame html={card.question} css={draft.css} isNight={isNight} title="Front" />
+                  <CardPreviewFrame html={card.answer} css={draft.css} isNight={isNight} title="Back" />
+                </div>
+              </div>
+            )) : (
+              <p className="text-sm text-gray-500">No card templates make a card from this note.</p>
+            )}
+            {basicCards.length < cards.length && (
+              <p className="text-xs text-gray-500">Cloze cards use the Cloze note type with this CSS.</p>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {!draft.builtIn && (
+            <button
+              onClick={handleDelete}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-xl transition-colors"
+            >
+              <Trash2 size={16} />
+              Delete
+            </button>
+          )}
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-gray-300 bg-gray-800 hover:bg-gray-700 rounded-xl transition-colors"
+          >
+            <Copy size={16} />
+            {isDirty ? 'Save as Copy' : 'Copy'}
+          </button>
+          {isDirty && (
+            <button
+              onClick={() => persist(draft)}
+              className="px-4 py-2 text-sm text-gray-100 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors"
+            >
+              Save
+            </button>
+          )}
+          <button
+            onClick={handleUse}
+            disabled={draft.id === selectedId && !isDirty}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 rounded-xl transition-colors disabled:opacity-50"
+          >
+            <Check size={16} />
+            {draft.id === selectedId && !isDirty ? 'Used for exports' : isDirty ? 'Save & Use for Exports' : 'Use for Exports'}
+          </button>
+        </div>
+      </div>
+    </motion.div>,
+    document.body,
+  );
+}
+
+/** One side of a card as Anki shows it: the template's HTML in a `.card` body with the note type's CSS */
+function CardPreviewFrame({ html, css, isNight, title }: { html: string; css: string; isNight: boolean; title: string }) {
+  const bodyClass = isNight ? 'card nightMode night_mode' : 'card';
+  // Anki's night mode draws the card on its own dark canvas
+  const night = isNight ? '\n.card.nightMode { color: #e6e6e6; background-color: #2c2c2c; }' : '';
+  const doc = `<!doctype html><html><head><meta charset="utf-8"><style>html, body { margin: 0; } body { padding: 16px; }\n${css}${night}</style></head><body class="${bodyClass}">${html}</body></html>`;
+  return (
+    <iframe
+      title={title}
+      srcDoc={doc}
+      sandbox=""
+      className={clsx('w-full h-48 rounded-lg border border-gray-800', isNight ? 'bg-gray-900' : 'bg-white')}
+    />
+  );
+}
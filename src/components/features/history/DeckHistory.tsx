@@ -1,14 +1,19 @@
 import { useState } from 'react';
-import { Trash2, ChevronDown, ChevronUp, Download, Clock } from 'lucide-react';
+import { Trash2, ChevronDown, ChevronUp, Clock, GraduationCap, Package } from 'lucide-react';
 import { clsx } from 'clsx';
 import type { Flashcard } from '../../../lib/ai';
+import { exportDecksAsPackage } from '../../../lib/exporters';
 import type { DeckRecord } from '../../../lib/storage';
-import { generateAnkiPackage, downloadDeck } from '../../../lib/anki';
+import { ClozeText } from '../cards/ClozeText';
+import { MarkdownText } from '../cards/MarkdownText';
+import { ExportMenu } from '../export/ExportMenu';
 
 interface Props {
   decks: DeckRecord[];
   onDelete: (id: string) => void;
   onLoad: (deck: DeckRecord) => void;
+  onStudy: (deck: DeckRecord) => void;
+  onAnkiNoteIds: (deckId: string, noteIds: Record<string, number>) => Promise<void>;
 }
 
 function timeAgo(ms: number): string {
@@ -23,21 +28,34 @@ function timeAgo(ms: number): string {
   return new Date(ms).toLocaleDateString();
 }
 
-export function DeckHistory({ decks, onDelete, onLoad }: Props) {
+export function DeckHistory({ decks, onDelete, onLoad, onStudy, onAnkiNoteIds }: Props) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
 
   if (decks.length === 0) return null;
 
-  const handleDownload = async (deck: DeckRecord) => {
-    setDownloadingId(deck.id);
+  // Ignore selections of decks deleted since
+  const selected = decks.filter(d => selectedIds.has(d.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExportSelected = async () => {
+    setIsExporting(true);
     try {
-      const blob = await generateAnkiPackage(deck.cards, deck.deckName);
-      downloadDeck(blob, deck.deckName);
-    } catch (err) {
-      console.error('Failed to download deck:', err);
+      await exportDecksAsPackage(selected);
+    } catch (error) {
+      console.error(error);
+      alert(`Failed to export decks${error instanceof Error ? `: ${error.message}` : ''}`);
     } finally {
-      setDownloadingId(null);
+      setIsExporting(false);
     }
   };
 
@@ -49,6 +67,24 @@ export function DeckHistory({ decks, onDelete, onLoad }: Props) {
         </div>
         <h2 className="text-xl font-bold text-gray-100">Previous Decks</h2>
         <span className="text-sm text-gray-500 font-medium">{decks.length} saved</span>
+        {selected.length > 0 && (
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              onClick={handleExportSelected}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Package size={16} />
+              {isExporting ? 'Exporting...' : `Download ${selected.length} deck${selected.length === 1 ? '' : 's'} as .apkg`}
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="space-y-3">
@@ -61,6 +97,13 @@ export function DeckHistory({ decks, onDelete, onLoad }: Props) {
             >
               {/* Row */}
               <div className="flex items-center gap-4 px-5 py-4">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(deck.id)}
+                  onChange={() => toggleSelected(deck.id)}
+                  className="shrink-0 accent-blue-500 cursor-pointer"
+                  title="Select for a combined .apkg"
+                />
                 <button
                   onClick={() => setExpandedId(isExpanded ? null : deck.id)}
                   className="text-gray-400 hover:text-gray-200 transition-colors shrink-0"
@@ -76,21 +119,45 @@ export function DeckHistory({ decks, onDelete, onLoad }: Props) {
                   <div className="flex items-center gap-2 mt-0.5 text-xs text-gray-500">
                     <span>{deck.sourceFile}</span>
                     <span>·</span>
-                    <span>{deck.difficulty}</span>
-                    <span>·</span>
+                    {deck.sourceMetadata && (
+                      <>
+                        <span>
+                          {deck.sourceMetadata.pageCount !== undefined
+                            ? `${deck.sourceMetadata.pageCount} ${deck.sourceMetadata.pageLabel?.toLowerCase() ?? 'page'}s`
+                            : `${deck.sourceMetadata.wordCount.toLocaleString()} words`}
+                        </span>
+                        <span>·</span>
+                      </>
+                    )}
+                    {deck.sourceSelection && (
+                      <>
+                        <span>
+                          {deck.sourceSelection.pages
+                            ? `${deck.sourceMetadata?.pageLabel ?? 'Page'}s ${deck.sourceSelection.pages}`
+                            : `${deck.sourceSelection.sections.length} of ${deck.sourceSelection.totalSections} sections`}
+                        </span>
+                        <span>·</span>
+                      </>
+                    )}
+                    {deck.difficulty && (
+                      <>
+                        <span>{deck.difficulty}</span>
+                        <span>·</span>
+                      </>
+                    )}
                     <span>{timeAgo(deck.createdAt)}</span>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-1 shrink-0">
                   <button
-                    onClick={() => handleDownload(deck)}
-                    disabled={downloadingId === deck.id}
-                    className="p-2 text-gray-400 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors"
-                    title="Download .apkg"
+                    onClick={() => onStudy(deck)}
+                    className="p-2 text-gray-400 hover:text-blue-400 hover:bg-blue-500/10 rounded-lg transition-colors"
+                    title="Study"
                   >
-                    <Download size={16} />
+                    <GraduationCap size={16} />
                   </button>
+                  <ExportMenu deck={deck} compact onAnkiNoteIds={ids => onAnkiNoteIds(deck.id, ids)} />
                   <button
                     onClick={() => onDelete(deck.id)}
                     className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
@@ -128,8 +195,17 @@ export function DeckHistory({ decks, onDelete, onLoad }: Props) {
                             {card.type || 'basic'}
                           </span>
                         </div>
-                        <p className="text-sm text-gray-200 font-medium mb-2">{card.front}</p>
-                        <p className="text-sm text-gray-400">{card.back}</p>
+                        {card.type === 'cloze' ? (
+                          <>
+                            <ClozeText text={card.front} revealed className="text-sm text-gray-200 font-medium mb-2" />
+                            {card.back && <MarkdownText text={card.back} className="text-sm text-gray-400" />}
+                          </>
+                        ) : (
+                          <>
+                            <MarkdownText text={card.front} className="text-sm text-gray-200 font-medium mb-2" />
+                            <MarkdownText text={card.back} className="text-sm text-gray-400" />
+                          </>
+                        )}
                       </div>
                     ))}
                   </div>
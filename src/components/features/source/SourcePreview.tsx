@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { ListChecks } from 'lucide-react';
+import { clsx } from 'clsx';
+import {
+  countWords, formatPageRange, parsePageRange, sectionsOnPages,
+  type DocumentSection, type ExtractedDocument,
+} from '../../../lib/document';
+
+interface Props {
+  doc: ExtractedDocument;
+  selected: number[];     // indexes of the sections cards will be generated from
+  onChange: (selected: number[]) => void;
+  disabled?: boolean;
+}
+
+/** A heading's section together with its subsections, so ticking a chapter ticks everything in it */
+function withSubsections(sections: DocumentSection[], index: number): number[] {
+  const { level } = sections[index];
+  const indexes = [index];
+  if (level === 0) return indexes;
+  for (let i = index + 1; i < sections.length && sections[i].level > level; i++) indexes.push(i);
+  return indexes;
+}
+
+function sectionLabel(doc: ExtractedDocument, section: DocumentSection): string {
+  const label = doc.metadata.pageLabel;
+  if (!label || section.pageStart === undefined) return section.title || 'Untitled';
+  const page = section.pageEnd !== undefined && section.pageEnd !== section.pageStart
+    ? `${label}s ${section.pageStart}-${section.pageEnd}`
+    : `${label} ${section.pageStart}`;
+  return section.title && section.title !== page ? `${page} · ${section.title}` : page;
+}
+
+/**
+ * The extracted document's pages, slides or sections, with checkboxes to choose which ones cards are
+ * generated from. Paged documents also take a page range, e.g. "4-6, 9".
+ */
+export function SourcePreview({ doc, selected, onChange, disabled = false }: Props) {
+  const [range, setRange] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+
+  const chosen = new Set(selected);
+  const label = doc.metadata.pageLabel;
+  const selectedWords = doc.sections.reduce((sum, s, i) => chosen.has(i) ? sum + countWords(s.text) : sum, 0);
+
+  const toggle = (index: number) => {
+    const next = new Set(chosen);
+    const on = !chosen.has(index);
+    for (const i of withSubsections(doc.sections, index)) {
+      if (on) next.add(i);
+      else next.delete(i);
+    }
+    onChange([...next].sort((a, b) => a - b));
+  };
+
+  const applyRange = () => {
+    const pages = parsePageRange(range, doc.metadata.pageCount ?? 0);
+    if (!pages) {
+      setRangeError(`Enter ${label?.toLowerCase() ?? 'page'}s between 1 and ${doc.metadata.pageCount}, e.g. 4-6, 9`);
+      return;
+    }
+    setRangeError(null);
+    setRange(formatPageRange(pages));
+    onChange(sectionsOnPages(doc, pages));
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4 border-b border-gray-800 pb-4">
+        <div className="flex items-center gap-2">
+          <ListChecks className="text-blue-400" size={20} />
+          <h3 className="text-lg font-semibold text-gray-100">Source</h3>
+          <span className="text-sm text-gray-500">
+            {selected.length} of {doc.sections.length} {label ? `${label.toLowerCase()}s` : 'sections'} · {selectedWords.toLocaleString()} words
+          </span>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => onChange(doc.sections.map((_, i) => i))}
+            disabled={disabled}
+            className="px-2 py-1 text-gray-400 hover:text-gray-200 disabled:opacity-50"
+          >
+            All
+          </button>
+          <button
+            onClick={() => onChange([])}
+            disabled={disabled}
+            className="px-2 py-1 text-gray-400 hover:text-gray-200 disabled:opacity-50"
+          >
+            None
+          </button>
+        </div>
+      </div>
+
+      {label && doc.metadata.pageCount !== undefined && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); applyRange(); }}
+          className="flex items-center gap-2 mb-4"
+        >
+          <label htmlFor="source-range" className="text-sm font-medium text-gray-300 shrink-0">{label}s</label>
+          <input
+            id="source-range"
+            type="text"
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            disabled={disabled}
+            placeholder={`e.g. 4-6, 9 (of ${doc.metadata.pageCount})`}
+            className="flex-1 border border-gray-700 rounded-lg px-3 py-1.5 text-sm bg-gray-800 text-gray-200 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+          <button
+            type="submit"
+            disabled={disabled || !range.trim()}
+            className="px-3 py-1.5 text-sm font-medium text-blue-400 border border-blue-500/30 rounded-lg hover:bg-blue-500/10 disabled:opacity-50"
+          >
+            Select
+          </button>
+        </form>
+      )}
+      {rangeError && <p className="text-red-400 text-sm mb-3">{rangeError}</p>}
+
+      <ul className="max-h-72 overflow-y-auto space-y-1 pr-1">
+        {doc.sections.map((section, i) => (
+          <li key={i}>
+            <label
+              className={clsx(
+                'flex items-start gap-3 px-2 py-1.5 rounded-lg cursor-pointer hover:bg-gray-800/60',
+                !chosen.has(i) && 'opacity-50',
+              )}
+              style={{ paddingLeft: `${0.5 + Math.max(section.level - 1, 0)}rem` }}
+            >
+              <input
+                type="checkbox"
+                checked={chosen.has(i)}
+                onChange={() => toggle(i)}
+                disabled={disabled}
+                className="mt-1 accent-blue-500"
+              />
+              <span className="min-w-0 flex-1">
+                <span className="block text-sm text-gray-200 truncate">{sectionLabel(doc, section)}</span>
+                <span className="block text-xs text-gray-500 truncate">
+                  {section.text ? section.text.slice(0, 160) : 'No text'}
+                </span>
+              </span>
+              <span className="text-xs text-gray-500 shrink-0">{countWords(section.text).toLocaleString()} words</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { motion } from 'framer-motion';
+import { GraduationCap, PartyPopper, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { DEFAULT_DECK_OPTIONS } from '../../../lib/deckoptions';
+import type { DeckRecord } from '../../../lib/storage';
+import {
+  GRADES,
+  LEARN_AHEAD_MS,
+  buildStudyQueue,
+  countStudyQueue,
+  formatInterval,
+  logReview,
+  newReviewState,
+  nextDueAt,
+  pickNextCard,
+  previewIntervals,
+  scheduleReview,
+  type Grade,
+  type ReviewLogEntry,
+  type ReviewState,
+} from '../../../lib/srs';
+import { ClozeText } from '../cards/ClozeText';
+import { MarkdownText } from '../cards/MarkdownText';
+
+interface Props {
+  deck: DeckRecord;
+  onSave: (reviews: Record<string, ReviewState>, reviewLog: ReviewLogEntry[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const GRADE_STYLES: Record<Grade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-500/15 text-red-400 hover:bg-red-500/25' },
+  hard: { label: 'Hard', className: 'bg-amber-500/15 text-amber-400 hover:bg-amber-500/25' },
+  good: { label: 'Good', className: 'bg-emerald-500/15 text-emerald-400 hover:bg-emerald-500/25' },
+  easy: { label: 'Easy', className: 'bg-blue-500/15 text-blue-400 hover:bg-blue-500/25' },
+};
+
+// Like Anki, don't count time spent away from the card beyond a minute
+const MAX_ANSWER_MS = 60_000;
+
+/**
+ * Full-screen review of a saved deck: one card at a time, reveal, then grade.
+ * Every answer is scheduled with SM-2 and saved to the deck straight away, so closing mid-session loses nothing.
+ */
+export function StudySession({ deck, onSave, onClose }: Props) {
+  const [reviews, setReviews] = useState<Record<string, ReviewState>>(() => deck.reviews ?? {});
+  const [reviewLog, setReviewLog] = useState<ReviewLogEntry[]>(() => deck.reviewLog ?? []);
+  // Scheduled with the deck's own options, the same ones its exports carry into Anki
+  const options = deck.deckOptions ?? DEFAULT_DECK_OPTIONS;
+  const [queue, setQueue] = useState<string[]>(() => buildStudyQueue(deck.cards, deck.reviews ?? {}, options.newPerDay));
+  const [currentId, setCurrentId] = useState<string | undefined>(() => pickNextCard(queue, reviews));
+  const [revealed, setRevealed] = useState(false);
+  const [shownAt, setShownAt] = useState(() => Date.now());
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  const card = deck.cards.find(c => c.id === currentId);
+  const state = (currentId && reviews[currentId]) || newReviewState();
+  const counts = countStudyQueue(queue, reviews);
+  const intervals = previewIntervals(state, options, shownAt);
+
+  const handleGrade = (grade: Grade) => {
+    if (!currentId || !revealed) return;
+    const after = scheduleReview(state, grade, options);
+    const now = after.lastReviewed!;
+    const nextReviews = { ...reviews, [currentId]: after };
+    const nextLog = [...reviewLog, logReview(currentId, state, after, grade, Math.min(now - shownAt, MAX_ANSWER_MS))];
+
+    // Cards still in (re)learning come back later in this session
+    const nextQueue = queue.filter(id => id !== currentId);
+    if (after.due - now <= LEARN_AHEAD_MS) nextQueue.push(currentId);
+
+    setReviews(nextReviews);
+    setReviewLog(nextLog);
+    setQueue(nextQueue);
+    setCurrentId(pickNextCard(nextQueue, nextReviews, now));
+    setRevealed(false);
+    setShownAt(now);
+    setReviewedCount(n => n + 1);
+
+    onSave(nextReviews, nextLog).catch((error) => {
+      console.error(error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to save your progress');
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (!revealed && (e.key === ' ' || e.key === 'Enter')) {
+      e.preventDefault();
+      setRevealed(true);
+    } else if (revealed && ['1', '2', '3', '4'].includes(e.key)) {
+      handleGrade(GRADES[Number(e.key) - 1]);
+    }
+  };
+
+  const nextDue = card ? undefined : nextDueAt(deck.cards, reviews);
+
+  return (
+    <motion.div
+      ref={containerRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="fixed inset-0 z-50 bg-gray-950/95 backdrop-blur-sm flex flex-col outline-none"
+    >
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="p-2 bg-emerald-500/10 rounded-lg text-emerald-400">
+            <GraduationCap size={20} />
+          </div>
+          <h2 className="font-semibold text-gray-100 truncate">{deck.deckName}</h2>
+        </div>
+        <div className="flex items-center gap-4 text-sm font-medium">
+          <span className="text-blue-400" title="New">{counts.new}</span>
+          <span className="text-red-400" title="Learning">{counts.learning}</span>
+          <span className="text-emerald-400" title="Review">{counts.review}</span>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded-lg transition-colors"
+            title="Close (Esc)"
+          >
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex items-center justify-center p-6">
+        {card ? (
+          <motion.div
+            key={`${currentId}-${reviewedCount}`}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.25 }}
+            className="w-full max-w-2xl bg-gray-900 border border-gray-800 rounded-2xl p-8 space-y-6"
+          >
+            {card.type === 'cloze'
+              ? <ClozeText text={card.front} revealed={revealed} className="text-xl text-gray-100 font-medium leading-relaxed text-center" />
+              : <MarkdownText text={card.front} className="text-xl text-gray-100 font-medium leading-relaxed text-center" />}
+            {revealed && card.back && (
+              <div className="pt-6 border-t border-gray-800 text-center">
+                <MarkdownText
+                  text={card.back}
+                  className={card.type === 'cloze' ? 'text-gray-400 leading-relaxed' : 'text-gray-300 leading-relaxed'}
+                />
+              </div>
+            )}
+          </motion.div>
+        ) : (
+          <div className="text-center space-y-3">
+            <PartyPopper size={40} className="mx-auto text-emerald-400" />
+            <h3 className="text-2xl font-bold text-gray-100">All done for now</h3>
+            <p className="text-gray-500">
+              {reviewedCount > 0 && `You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}. `}
+              {nextDue !== undefined
+                ? `The next card is due in ${formatInterval(Math.max(nextDue - shownAt, 0))}.`
+                : 'Nothing is due in this deck.'}
+            </p>
+            <button
+              onClick={onClose}
+              className="mt-4 px-6 py-2.5 bg-emerald-600 text-white font-medium rounded-xl hover:bg-emerald-500 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        )}
+      </div>
+
+      {card && (
+        <div className="border-t border-gray-800 px-6 py-5">
+          {saveError && <p className="text-center text-xs text-red-400 mb-3">{saveError}</p>}
+          {revealed ? (
+            <div className="flex justify-center gap-3">
+              {GRADES.map((grade, idx) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={clsx('flex flex-col items-center w-24 py-2 rounded-xl font-medium transition-colors', GRADE_STYLES[grade].className)}
+                  title={`${GRADE_STYLES[grade].label} (${idx + 1})`}
+                >
+                  <span className="text-xs opacity-70">{formatInterval(intervals[grade])}</span>
+                  {GRADE_STYLES[grade].label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <button
+                onClick={() => setRevealed(true)}
+                className="px-10 py-3 bg-gray-800 text-gray-100 font-medium rounded-xl hover:bg-gray-700 transition-colors"
+                title="Show answer (Space)"
+              >
+                Show Answer
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
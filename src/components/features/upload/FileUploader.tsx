@@ -1,16 +1,27 @@
 import React, { useState, useCallback } from 'react';
-import { Upload, AlertCircle } from 'lucide-react';
+import { Upload, AlertCircle, Camera } from 'lucide-react';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
 interface FileUploaderProps {
     onFileSelect: (file: File) => void;
     isLoading?: boolean;
+    maxSizeMb?: number;
+    onMaxSizeChange?: (mb: number) => void;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading = false }) => {
+export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading = false, maxSizeMb = 100, onMaxSizeChange }) => {
     const [isDragging, setIsDragging] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Text in the size field while it's being edited; applied on blur or Enter
+    const [sizeDraft, setSizeDraft] = useState<string | null>(null);
+
+    const commitSizeDraft = () => {
+        if (sizeDraft === null) return;
+        const mb = Math.round(Number(sizeDraft));
+        if (mb >= 1 && mb !== maxSizeMb) onMaxSizeChange?.(mb);
+        setSizeDraft(null);
+    };
 
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault();
@@ -22,28 +33,47 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
         setIsDragging(false);
     }, []);
 
-    const validateFile = (file: File): string | null => {
+    const validateFile = useCallback((file: File): string | null => {
         const validTypes = [
             'application/pdf',
             'text/markdown',
             'text/plain',
             'application/vnd.openxmlformats-officedocument.presentationml.presentation', // pptx
-            'application/vnd.ms-powerpoint' // ppt
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // docx
+            'image/png',
+            'image/jpeg',
+            'image/webp',
         ];
 
-        // Check extension for markdown if mime type fails (common issue)
-        const isMarkdown = file.name.endsWith('.md') || file.name.endsWith('.markdown');
+        const name = file.name.toLowerCase();
+
+        // Legacy binary .ppt can't be unpacked in the browser
+        if (file.type === 'application/vnd.ms-powerpoint' || name.endsWith('.ppt')) {
+            return 'Legacy PowerPoint (.ppt) is not supported. Please re-save it as .pptx and try again.';
+        }
+        if (file.type === 'application/msword' || name.endsWith('.doc')) {
+            return 'Legacy Word (.doc) is not supported. Please re-save it as .docx and try again.';
+        }
+
+        // Anki packages are imported into the library rather than extracted; their media is skipped, so allow more room
+        if (name.endsWith('.apkg')) {
+            return file.size > 100 * 1024 * 1024 ? 'Anki package too large. Maximum size is 100MB.' : null;
+        }
+
+        // Check extension for markdown/office files if mime type fails (common issue)
+        const isMarkdown = name.endsWith('.md') || name.endsWith('.markdown');
+        const isOffice = name.endsWith('.pptx') || name.endsWith('.docx');
 
-        if (!validTypes.includes(file.type) && !isMarkdown) {
-            return 'Unsupported file type. Please upload PDF, MD, TXT, or PPTX.';
+        if (!validTypes.includes(file.type) && !isMarkdown && !isOffice) {
+            return 'Unsupported file type. Please upload PDF, DOCX, PPTX, MD, TXT, a PNG/JPEG/WebP image, or an Anki .apkg.';
         }
 
-        if (file.size > 10 * 1024 * 1024) { // 10MB
-            return 'File too large. Maximum size is 10MB.';
+        if (file.size > maxSizeMb * 1024 * 1024) {
+            return `File too large. Maximum size is ${maxSizeMb}MB; you can raise the limit below.`;
         }
 
         return null;
-    };
+    }, [maxSizeMb]);
 
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault();
@@ -59,7 +89,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
                 onFileSelect(file);
             }
         }
-    }, [onFileSelect]);
+    }, [onFileSelect, validateFile]);
 
     const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
         setError(null);
@@ -72,7 +102,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
                 onFileSelect(file);
             }
         }
-    }, [onFileSelect]);
+    }, [onFileSelect, validateFile]);
 
     return (
         <div className="w-full max-w-xl mx-auto">
@@ -100,22 +130,63 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
                     {isDragging ? 'Drop file to upload' : 'Click or drop file here'}
                 </h3>
                 <p className="text-gray-500 text-sm mb-6">
-                    Support for PDF, Markdown, Text, and PowerPoint (up to 10MB)
+                    Support for PDF, Word, PowerPoint, Markdown, Text and photos of notes (up to {maxSizeMb}MB), or import an Anki .apkg
                 </p>
 
                 <input
                     id="file-input"
                     type="file"
-                    accept=".pdf,.md,.markdown,.txt,.pptx,.ppt"
+                    accept=".pdf,.docx,.pptx,.md,.markdown,.txt,.png,.jpg,.jpeg,.webp,.apkg"
+                    onChange={handleFileInput}
+                    className="hidden"
+                />
+                {/* Opens the camera straight away on phones; desktops show the file picker */}
+                <input
+                    id="camera-input"
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
                     onChange={handleFileInput}
                     className="hidden"
                 />
 
-                <button className="px-6 py-2.5 bg-blue-600 text-white font-medium rounded-lg shadow-sm hover:bg-blue-500 transition-colors">
-                    Browse Files
-                </button>
+                <div className="flex items-center justify-center gap-3">
+                    <button className="px-6 py-2.5 bg-blue-600 text-white font-medium rounded-lg shadow-sm hover:bg-blue-500 transition-colors">
+                        Browse Files
+                    </button>
+                    <button
+                        type="button"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            document.getElementById('camera-input')?.click();
+                        }}
+                        className="flex items-center gap-2 px-4 py-2.5 text-gray-300 font-medium border border-gray-700 rounded-lg hover:bg-gray-800 transition-colors"
+                    >
+                        <Camera size={18} />
+                        Take Photo
+                    </button>
+                </div>
             </div>
 
+            {onMaxSizeChange && (
+                <label className="mt-3 flex items-center justify-center gap-2 text-xs text-gray-500">
+                    Maximum file size
+                    <input
+                        type="number"
+                        min={1}
+                        value={sizeDraft ?? maxSizeMb}
+                        onChange={(e) => setSizeDraft(e.target.value)}
+                        onBlur={commitSizeDraft}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitSizeDraft();
+                            if (e.key === 'Escape') setSizeDraft(null);
+                        }}
+                        className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-300 focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    MB
+                </label>
+            )}
+
             {error && (
                 <div className="mt-4 p-4 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-3 text-red-400 animate-in fade-in slide-in-from-top-2">
                     <AlertCircle size={20} />
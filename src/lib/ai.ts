@@ -1,15 +1,31 @@
+import { chunkDocument, flattenDocument, groupSectionsByHeading } from "./document";
+import type { DocumentChunk, ExtractedDocument } from "./document";
+import { blobToBase64 } from "./media";
+import { OPENROUTER_BASE_URL, PROVIDERS } from "./providers";
+import type { LLMProvider } from "./providers";
+import { formatIssue, normalizeDeckPath, validateCard } from "./validation";
+import type { CardIssue } from "./validation";
+
 export interface Flashcard {
-  front: string;
-  back: string;
+  id?: string;            // stable identity, kept across edits so Anki re-imports update the same note
+  front: string;          // question, or the full text with {{c1::...}} deletions for cloze cards
+  back: string;           // answer, or optional extra info shown after a cloze is revealed
   type?: "basic" | "cloze";
   tags?: string[];
+  guid?: string;          // Anki note guid, kept from an imported .apkg so exports update the original note
+  subdeck?: string;       // deck path below the deck name, e.g. "Chapter 1" or "Part I::Chapter 1"
+  fields?: Record<string, string>;  // Markdown for a note type's extra fields (e.g. "Source"), by field name
 }
 
+export type CardTypeMode = "basic" | "cloze" | "mixed";
+
 export interface ModelOption {
   id: string;
   name: string;
   provider: string;
   free?: boolean;
+  contextLength?: number;
+  vision?: boolean;       // accepts image input; unknown for servers that only list ids
 }
 
 // Fallback used while the live list loads or if the fetch fails
@@ -19,23 +35,27 @@ export const FALLBACK_MODELS: ModelOption[] = [
     name: "Gemini 2.0 Flash",
     provider: "Google",
     free: true,
+    vision: true,
   },
   {
     id: "deepseek/deepseek-chat-v3-0324",
     name: "DeepSeek V3",
     provider: "DeepSeek",
+    vision: false,
   },
-  { id: "openai/gpt-4o-mini", name: "GPT-4o Mini", provider: "OpenAI" },
-  { id: "openai/gpt-4o", name: "GPT-4o", provider: "OpenAI" },
+  { id: "openai/gpt-4o-mini", name: "GPT-4o Mini", provider: "OpenAI", vision: true },
+  { id: "openai/gpt-4o", name: "GPT-4o", provider: "OpenAI", vision: true },
   {
     id: "anthropic/claude-3.5-sonnet",
     name: "Claude 3.5 Sonnet",
     provider: "Anthropic",
+    vision: true,
   },
   {
     id: "meta-llama/llama-3.3-70b-instruct",
     name: "Llama 3.3 70B",
     provider: "Meta",
+    vision: false,
   },
 ];
 
@@ -49,15 +69,28 @@ const PREFERRED_IDS = new Set([
   "meta-llama/llama-3.3-70b-instruct",
 ]);
 
+/**
+ * Fetch the models offered by a provider.
+ * OpenRouter returns rich metadata (pricing, modalities, context length); local
+ * OpenAI-compatible servers only list ids, and an unreachable server yields an empty list.
+ */
+export async function fetchAvailableModels(
+  provider: LLMProvider = PROVIDERS[0],
+  apiKey?: string,
+): Promise<ModelOption[]> {
+  if (provider.id === "openrouter") return fetchOpenRouterModels();
+  return fetchCompatibleModels(provider, apiKey);
+}
+
 /**
  * Fetch available models from the OpenRouter API.
  * A model is marked free when both prompt and completion pricing are "0".
  * Only text-output models are included, capped at 50 results.
  */
-export async function fetchAvailableModels(): Promise<ModelOption[]> {
+async function fetchOpenRouterModels(): Promise<ModelOption[]> {
   try {
     console.log("[Flashy] Fetching models from OpenRouter...");
-    const res = await fetch("https://openrouter.ai/api/v1/models");
+    const res = await fetch(`${OPENROUTER_BASE_URL}/models`);
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
 
     const json = await res.json();
@@ -69,6 +102,7 @@ export async function fetchAvailableModels(): Promise<ModelOption[]> {
       if (!outputMods.includes("text")) continue;
 
       const isFree = m.pricing?.prompt === "0" && m.pricing?.completion === "0";
+      const inputMods: string[] = m.architecture?.input_modalities ?? [];
 
       // Extract provider from the id (e.g. "openai/gpt-4o" → "OpenAI")
       const rawProvider = (m.id as string).split("/")[0] ?? "";
@@ -80,6 +114,8 @@ export async function fetchAvailableModels(): Promise<ModelOption[]> {
         name: m.name ?? m.id,
         provider,
         free: isFree || undefined,
+        contextLength: m.context_length ?? undefined,
+        vision: inputMods.includes("image"),
       });
     }
 
@@ -104,27 +140,62 @@ export async function fetchAvailableModels(): Promise<ModelOption[]> {
   }
 }
 
+/** List models from an OpenAI-compatible `/v1/models` endpoint (Ollama, LM Studio, llama.cpp...) */
+async function fetchCompatibleModels(
+  provider: LLMProvider,
+  apiKey?: string,
+): Promise<ModelOption[]> {
+  try {
+    console.log(`[Flashy] Fetching models from ${provider.name} at ${provider.baseUrl}...`);
+    const res = await fetch(`${provider.baseUrl}/models`, {
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    const json = await res.json();
+    const models: ModelOption[] = (json.data ?? [])
+      .filter((m: { id?: unknown }) => typeof m.id === "string")
+      .map((m: { id: string; context_length?: number }) => ({
+        id: m.id,
+        name: m.id,
+        provider: provider.name,
+        contextLength: m.context_length,
+      }));
+    models.sort((a, b) => a.name.localeCompare(b.name));
+
+    console.log(`[Flashy] Fetched ${models.length} models from ${provider.name}`);
+    return models;
+  } catch (err) {
+    console.warn(`[Flashy] Failed to fetch models from ${provider.name}:`, err);
+    return [];
+  }
+}
+
+/** Whether a model can be sent images; local servers don't say, so their models are assumed to */
+export function acceptsImages(model: ModelOption): boolean {
+  return model.vision !== false;
+}
+
 export interface GenerationConfig {
-  apiKey: string;
+  provider: LLMProvider;
+  apiKey: string;           // may be empty for local providers
   model: string;
   numCards: number;
   difficulty: string;
   deckName: string;
   focusAreas?: string;
   tags?: string[];
+  cardType?: CardTypeMode;  // defaults to "basic"
+  contextLength?: number;   // selected model's context window, in tokens
+  concurrency?: number;     // max chunk requests in flight for long documents
+  onProgress?: (progress: GenerationProgress) => void;
+  onCard?: (card: Flashcard) => void;   // called for each card as it streams in
+  signal?: AbortSignal;                 // abort to stop early and keep the cards received so far
+  maxRepairAttempts?: number;           // follow-up requests allowed to fix malformed output
+  subdecksBySection?: boolean;          // put each top-level section's cards in a subdeck named after it
 }
 
-export async function generateFlashcards(
-  content: string,
-  config: GenerationConfig,
-): Promise<Flashcard[]> {
-  if (!config.apiKey) {
-    throw new Error("API Key is required");
-  }
-
-  const truncatedContent = content.slice(0, 100000);
-
-  const systemPrompt = `You are an expert educational content creator specializing in Anki flashcard design. Create flashcards optimized for spaced repetition learning.
+const SYSTEM_PROMPT = `You are an expert educational content creator specializing in Anki flashcard design. Create flashcards optimized for spaced repetition learning.
 
 DIFFICULTY LEVELS — you MUST match the requested level:
 
@@ -153,6 +224,10 @@ PRINCIPLES:
 4. Difficulty-appropriate: STRICTLY follow the requested difficulty level
 5. Memorable: Use examples and context
 
+FORMATTING:
+- Card text may use Markdown: **bold**, *italics*, \`inline code\`, fenced code blocks and lists
+- Write math as LaTeX between $...$ (inline) or $$...$$ (display), escaping backslashes for JSON (e.g. "$\\\\frac{a}{b}$")
+
 AVOID:
 - Yes/no questions
 - Overly broad questions
@@ -160,13 +235,208 @@ AVOID:
 - Ambiguous wording
 - Generating basic recall cards when intermediate or advanced is requested`;
 
-  const userPrompt = `
-Document Content:
-${truncatedContent}
+/** Upper bound on document characters sent in a single request */
+const MAX_CHUNK_CHARS = 100000;
+/** Assumed context window when the model list doesn't report one */
+const DEFAULT_CONTEXT_TOKENS = 32000;
+/** Tokens kept free for the system prompt, instructions and the completion */
+const RESERVED_TOKENS = 4096 + 2000;
+/** Conservative chars-per-token estimate so chunks don't overflow the context */
+const CHARS_PER_TOKEN = 3;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+/** Ask the model to repair its output when more than this share of cards is invalid */
+const MAX_INVALID_RATIO = 0.2;
+
+export interface GenerationProgress {
+  completedChunks: number;
+  totalChunks: number;
+  failedChunks: number;
+  cardsSoFar: number;
+  invalidCards: number;   // malformed cards dropped, counted over every repair attempt
+}
+
+/**
+ * Generate flashcards for a document.
+ * Documents that fit the selected model's context go out in one request. Longer ones are
+ * split on section boundaries, the requested card count is distributed across chunks in
+ * proportion to their length, chunks run with a concurrency limit, and the results are
+ * merged with near-duplicate questions removed.
+ * Cards stream to `config.onCard` as they arrive; aborting `config.signal` stops any
+ * remaining work and resolves with the cards generated so far.
+ */
+export async function generateFlashcards(
+  doc: ExtractedDocument,
+  config: GenerationConfig,
+): Promise<Flashcard[]> {
+  if (config.provider.requiresKey && !config.apiKey) {
+    throw new Error("API Key is required");
+  }
+
+  // Photographed notes are sent to the model as images, in one request
+  const attachments = doc.sourceType === "image" ? await imageAttachments(doc) : [];
+  const chunkSize = chunkSizeFor(config.contextLength);
+  const chunks: GenerationChunk[] = attachments.length
+    ? [{ index: 0, sections: doc.sections, text: flattenDocument(doc) }]
+    : config.subdecksBySection
+      ? chunkBySection(doc, chunkSize)
+      : chunkDocument(doc, chunkSize);
+  if (chunks.length === 0) {
+    throw new Error("The document has no text to generate flashcards from");
+  }
+
+  console.log("[Flashy] Starting generation...", {
+    model: config.model,
+    source: doc.sourceFile,
+    sections: doc.sections.length,
+    contentLength: flattenDocument(doc).length,
+    chunks: chunks.length,
+    images: attachments.length,
+    numCards: config.numCards,
+    difficulty: config.difficulty,
+  });
+
+  if (chunks.length === 1) {
+    try {
+      const result = await requestCards(
+        withSubdeck(config, chunks[0].subdeck),
+        buildUserPrompt(chunks[0].text, config.numCards, config, undefined, attachments.length),
+        attachments,
+      );
+      config.onProgress?.({
+        completedChunks: 1,
+        totalChunks: 1,
+        failedChunks: 0,
+        cardsSoFar: result.cards.length,
+        invalidCards: result.invalidCount,
+      });
+      console.log("[Flashy] Generation complete!", result.cards.length, "cards");
+      return inSubdeck(result.cards, chunks[0].subdeck);
+    } catch (error) {
+      console.error("[Flashy] AI Generation Error:", error);
+      throw error;
+    }
+  }
+
+  const allocation = allocateCards(
+    config.numCards,
+    chunks.map((c) => c.text.length),
+  );
+  const jobs = chunks
+    .map((chunk, i) => ({ chunk, numCards: allocation[i] }))
+    .filter((job) => job.numCards > 0);
+
+  const progress: GenerationProgress = {
+    completedChunks: 0,
+    totalChunks: jobs.length,
+    failedChunks: 0,
+    cardsSoFar: 0,
+    invalidCards: 0,
+  };
+  config.onProgress?.({ ...progress });
+
+  const results: Flashcard[][] = [];
+  const errors: unknown[] = [];
+
+  await runWithConcurrency(
+    jobs,
+    config.concurrency ?? DEFAULT_CONCURRENCY,
+    async (job, i) => {
+      if (config.signal?.aborted) return;
+      try {
+        console.log(
+          `[Flashy] Generating chunk ${i + 1}/${jobs.length} (${job.numCards} cards, ${job.chunk.text.length} chars)`,
+        );
+        const result = await requestCards(
+          withSubdeck(config, job.chunk.subdeck),
+          buildUserPrompt(job.chunk.text, job.numCards, config, {
+            index: i,
+            total: jobs.length,
+          }),
+        );
+        results[i] = inSubdeck(result.cards, job.chunk.subdeck);
+        progress.cardsSoFar += result.cards.length;
+        progress.invalidCards += result.invalidCount;
+      } catch (error) {
+        console.error(`[Flashy] Chunk ${i + 1} failed:`, error);
+        errors.push(error);
+        progress.failedChunks++;
+      }
+      progress.completedChunks++;
+      config.onProgress?.({ ...progress });
+    },
+  );
+
+  // Keep results in document order regardless of completion order
+  const merged = dedupeCards(results.flatMap((r) => r ?? []));
+  if (merged.length === 0 && errors.length > 0) {
+    throw errors[0];
+  }
+  console.log(
+    `[Flashy] Generation complete! ${merged.length} cards from ${jobs.length} chunks (${progress.failedChunks} failed)`,
+  );
+  return merged;
+}
+
+interface GenerationChunk extends DocumentChunk {
+  subdeck?: string;
+}
+
+/**
+ * Chunks that never straddle two top-level sections, each labelled with its section's subdeck.
+ * A document without at least two top-level headings is chunked as usual, without subdecks.
+ */
+function chunkBySection(doc: ExtractedDocument, maxChars: number): GenerationChunk[] {
+  const groups = groupSectionsByHeading(doc);
+  if (groups.length < 2) return chunkDocument(doc, maxChars);
+  return groups
+    .flatMap((group) => {
+      // A "::" in a heading would nest the subdeck one level deeper
+      const subdeck = normalizeDeckPath((group.title ?? "").replace(/::/g, ":")) || undefined;
+      return chunkDocument({ ...doc, sections: group.sections }, maxChars).map((chunk) => ({ ...chunk, subdeck }));
+    })
+    .map((chunk, index) => ({ ...chunk, index }));
+}
+
+/** Config for one chunk's request, so cards streamed to `onCard` already carry the chunk's subdeck */
+function withSubdeck(config: GenerationConfig, subdeck?: string): GenerationConfig {
+  if (!subdeck || !config.onCard) return config;
+  const onCard = config.onCard;
+  return { ...config, onCard: (card) => onCard({ ...card, subdeck }) };
+}
+
+function inSubdeck(cards: Flashcard[], subdeck?: string): Flashcard[] {
+  return subdeck ? cards.map((card) => ({ ...card, subdeck })) : cards;
+}
+
+/** Data URLs of an image document's pictures, already downscaled when the file was read */
+async function imageAttachments(doc: ExtractedDocument): Promise<string[]> {
+  return Promise.all(
+    (doc.images ?? []).map(async (image) => `data:${image.blob.type};base64,${await blobToBase64(image.blob)}`),
+  );
+}
+
+function buildUserPrompt(
+  content: string,
+  numCards: number,
+  config: GenerationConfig,
+  part?: { index: number; total: number },
+  imageCount = 0,
+): string {
+  const partNote = part
+    ? "This is only one part of a longer document. Generate cards ONLY from the content above; other parts are handled separately.\n"
+    : "";
+  const source = imageCount
+    ? `Document Content: the attached ${imageCount === 1 ? "image" : `${imageCount} images`} (photographed notes, a whiteboard, slides or a printed page). Read all of the text, including handwriting, and use diagrams and tables too. Generate cards only from what the ${imageCount === 1 ? "image shows" : "images show"}.${content ? `\n${content}` : ""}`
+    : `Document Content${part ? ` (part ${part.index + 1} of ${part.total})` : ""}:
+${content}`;
+
+  return `
+${source}
 
 Configuration:
 - Difficulty: ${config.difficulty}
-- Target Cards: ${config.numCards}
+- Target Cards: ${numCards}
 - Focus Areas: ${config.focusAreas || "Key concepts"}
 - Tags: ${config.tags?.join(", ") || "general"}
 
@@ -178,75 +448,288 @@ IMPORTANT: The difficulty is "${config.difficulty}". You MUST generate ${config.
         : "Focus on analysis, synthesis, edge cases, and evaluation that require deep expertise."
   }
 
-Generate ${config.numCards} flashcards as a JSON array.
-Format:
-[
-  {
+Generate ${numCards} flashcards as a JSON array.
+${formatInstructions(config)}
+
+${partNote}Return ONLY valid JSON. No markdown formatting.
+`;
+}
+
+const CLOZE_GUIDANCE = `CLOZE CARDS:
+- Put the full sentence in "front" and wrap each hidden term as {{c1::term}}; use {{c1::term::hint}} to add a hint
+- Number deletions c1, c2, c3... — each number becomes a separate card; reuse a number to hide terms together
+- Hide key terms, names, numbers or short phrases, never whole sentences
+- Keep enough context that each deletion has exactly one correct answer
+- Never nest deletions, and close every {{ with }}
+- "back" is optional extra context shown after the answer (may be "")`;
+
+function formatInstructions(config: GenerationConfig): string {
+  const basic = `  {
     "type": "basic",
     "front": "Your ${config.difficulty}-level question here",
     "back": "Answer appropriate for ${config.difficulty} difficulty",
     "tags": ["tag1", "theme"]
+  }`;
+  const cloze = `  {
+    "type": "cloze",
+    "front": "The {{c1::mitochondria}} produces most of the cell's {{c2::ATP}}.",
+    "back": "Optional extra context",
+    "tags": ["tag1", "theme"]
+  }`;
+
+  switch (config.cardType ?? "basic") {
+    case "cloze":
+      return `Every card MUST be a cloze deletion card.
+${CLOZE_GUIDANCE}
+
+Format:
+[
+${cloze}
+]`;
+    case "mixed":
+      return `Mix card types: use cloze cards for facts, definitions, terms and lists, and basic question/answer cards for "why"/"how" reasoning.
+${CLOZE_GUIDANCE}
+
+Format:
+[
+${basic},
+${cloze}
+]`;
+    default:
+      return `Format:
+[
+${basic}
+]`;
   }
-]
+}
 
-Return ONLY valid JSON. No markdown formatting.
-`;
+/** Max document characters per request for a model with the given context window */
+function chunkSizeFor(contextLength?: number): number {
+  const tokens = (contextLength ?? DEFAULT_CONTEXT_TOKENS) - RESERVED_TOKENS;
+  return Math.max(
+    4000,
+    Math.min(MAX_CHUNK_CHARS, Math.floor(tokens * CHARS_PER_TOKEN)),
+  );
+}
 
-  try {
-    console.log("[Flashy] Starting generation...", {
-      model: config.model,
-      contentLength: truncatedContent.length,
-      numCards: config.numCards,
-      difficulty: config.difficulty,
+/**
+ * Split `total` cards across chunks in proportion to their sizes (largest remainder method).
+ * Every chunk gets at least one card when there are enough cards to go around.
+ */
+function allocateCards(total: number, sizes: number[]): number[] {
+  const sum = sizes.reduce((a, b) => a + b, 0) || 1;
+  const floor = total >= sizes.length ? 1 : 0;
+  const spare = total - floor * sizes.length;
+  const exact = sizes.map((size) => (size / sum) * spare);
+  const counts = exact.map((x) => floor + Math.floor(x));
+
+  let remaining = total - counts.reduce((a, b) => a + b, 0);
+  const byRemainder = exact
+    .map((x, i) => ({ i, r: x - Math.floor(x) }))
+    .sort((a, b) => b.r - a.r);
+  for (let k = 0; remaining > 0; k = (k + 1) % byRemainder.length) {
+    counts[byRemainder[k].i]++;
+    remaining--;
+  }
+  return counts;
+}
+
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    async () => {
+      while (next < items.length) {
+        const i = next++;
+        await worker(items[i], i);
+      }
+    },
+  );
+  await Promise.all(runners);
+}
+
+/**
+ * Drop cards whose questions repeat an earlier card's, either exactly (ignoring case and
+ * punctuation) or near-exactly (high word overlap) — adjacent chunks often cover the same idea.
+ */
+function dedupeCards(cards: Flashcard[]): Flashcard[] {
+  const kept: { card: Flashcard; words: Set<string> }[] = [];
+  const seen = new Set<string>();
+
+  for (const card of cards) {
+    const normalized = String(card.front ?? "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!normalized || seen.has(normalized)) continue;
+
+    const words = new Set(normalized.split(" "));
+    const isNearDuplicate = kept.some(({ words: other }) => {
+      let shared = 0;
+      for (const w of words) if (other.has(w)) shared++;
+      return shared / (words.size + other.size - shared) >= 0.85;
     });
-    const result = await callOpenRouter(
-      config.apiKey,
-      config.model,
-      systemPrompt,
-      userPrompt,
+    if (isNearDuplicate) continue;
+
+    seen.add(normalized);
+    kept.push({ card, words });
+  }
+
+  return kept.map((k) => k.card);
+}
+
+/**
+ * Request cards for one prompt, validating them as they arrive.
+ * When the JSON can't be recovered or too many cards are malformed, the conversation is
+ * continued with a repair request listing the problems, up to `maxRepairAttempts` times.
+ * Repaired cards are appended to the valid ones from earlier attempts; `invalidCount` totals the
+ * malformed cards dropped across all attempts.
+ * `images` are data URLs sent with the prompt as multimodal `image_url` parts.
+ */
+async function requestCards(
+  config: GenerationConfig,
+  userPrompt: string,
+  images: string[] = [],
+): Promise<{ cards: Flashcard[]; invalidCount: number }> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    {
+      role: "user",
+      content: images.length
+        ? [
+          { type: "text", text: userPrompt },
+          ...images.map((url): ChatContentPart => ({ type: "image_url", image_url: { url } })),
+        ]
+        : userPrompt,
+    },
+  ];
+  const options = { signal: config.signal, onCard: config.onCard };
+  const maxAttempts = config.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+  const cards: Flashcard[] = [];
+  let invalidCount = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await callChatCompletion(config, messages, options);
+    cards.push(...result.cards);
+    invalidCount += result.invalidCount;
+
+    if (result.issues.length) {
+      console.warn(
+        `[Flashy] Validation issues (attempt ${attempt + 1}):`,
+        result.issues.map(formatIssue),
+      );
+    }
+
+    const needsRepair =
+      result.parseError !== undefined ||
+      result.invalidCount > result.total * MAX_INVALID_RATIO;
+    if (!needsRepair || config.signal?.aborted || attempt >= maxAttempts) {
+      if (result.parseError !== undefined && cards.length === 0) {
+        throw new Error(result.parseError);
+      }
+      return { cards, invalidCount };
+    }
+
+    console.warn(
+      `[Flashy] Requesting repair (attempt ${attempt + 1} of ${maxAttempts})...`,
+    );
+    messages.push(
+      { role: "assistant", content: result.text },
+      { role: "user", content: buildRepairPrompt(result) },
     );
-    console.log("[Flashy] Generation complete!", result.length, "cards");
-    return result;
-  } catch (error) {
-    console.error("[Flashy] AI Generation Error:", error);
-    throw error;
   }
 }
 
-async function callOpenRouter(
-  apiKey: string,
-  model: string,
-  system: string,
-  user: string,
-): Promise<Flashcard[]> {
-  console.log("[Flashy] Calling OpenRouter API...", {
-    model,
-    url: "https://openrouter.ai/api/v1/chat/completions",
-  });
+function buildRepairPrompt(result: ChatResult): string {
+  if (result.parseError !== undefined) {
+    return `Your previous response could not be parsed (${result.parseError}). Return the complete list of flashcards again as a single valid JSON array in the requested format. Return ONLY valid JSON. No markdown formatting, no commentary.`;
+  }
+
+  const errors = result.issues
+    .filter((issue) => issue.severity === "error")
+    .map((issue) => `- ${formatIssue(issue)}`)
+    .join("\n");
+  return `${result.invalidCount} of the ${result.total} cards in your previous response were invalid and have been discarded:
+${errors}
+
+Return ONLY corrected replacements for those ${result.invalidCount} cards as a JSON array in the same format: each card needs a non-empty string "front" and "back" (cloze cards may leave "back" empty but need well-formed {{c1::...}} deletions in "front"), "type" of "basic" or "cloze", and "tags" as an array of strings. Do not repeat the valid cards. Return ONLY valid JSON. No markdown formatting.`;
+}
+
+/** OpenAI-style multimodal message part */
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+interface CallOptions {
+  signal?: AbortSignal;
+  onCard?: (card: Flashcard) => void;
+}
+
+interface ChatResult {
+  text: string;
+  cards: Flashcard[];     // valid, normalized cards
+  issues: CardIssue[];
+  total: number;          // raw card objects seen, valid or not
+  invalidCount: number;
+  parseError?: string;    // set when no cards at all could be recovered from the text
+}
+
+/**
+ * Send one chat completion request and parse the flashcards out of it.
+ * The response is streamed: each card is validated and handed to `onCard` as soon as its
+ * JSON object closes. If `signal` aborts mid-stream, the cards received so far are
+ * returned instead of throwing.
+ */
+async function callChatCompletion(
+  { provider, apiKey, model }: Pick<GenerationConfig, "provider" | "apiKey" | "model">,
+  messages: ChatMessage[],
+  options: CallOptions = {},
+): Promise<ChatResult> {
+  const url = `${provider.baseUrl}/chat/completions`;
+  console.log(`[Flashy] Calling ${provider.name} API...`, { model, url });
   const startTime = performance.now();
 
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  if (provider.id === "openrouter") {
+    headers["HTTP-Referer"] = window.location.origin;
+    headers["X-Title"] = "Flashy";
+  }
+
   let response: Response;
   try {
-    response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+    response = await fetch(url, {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "HTTP-Referer": window.location.origin,
-        "X-Title": "Flashy",
-      },
+      headers,
       body: JSON.stringify({
         model,
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
+        messages,
         temperature: 0.7,
         max_tokens: 4096,
+        stream: true,
       }),
+      signal: options.signal,
     });
   } catch (fetchErr) {
+    if (options.signal?.aborted) return createCardCollector(options).result("");
     console.error("[Flashy] Network/fetch error:", fetchErr);
+    if (provider.id !== "openrouter") {
+      throw new Error(
+        `Could not reach ${provider.name} at ${provider.baseUrl}. Make sure the server is running and allows requests from this page (CORS).`,
+      );
+    }
     throw new Error(
       `Network error: ${fetchErr instanceof Error ? fetchErr.message : "Failed to reach OpenRouter"}`,
     );
@@ -260,7 +743,7 @@ async function callOpenRouter(
   if (!response.ok) {
     const errBody = await response.text().catch(() => "");
     console.error("[Flashy] API error response:", response.status, errBody);
-    let message = `OpenRouter API failed (${response.status})`;
+    let message = `${provider.name} API failed (${response.status})`;
     try {
       const parsed = JSON.parse(errBody);
       message = parsed.error?.message || message;
@@ -275,7 +758,12 @@ async function callOpenRouter(
       message.toLowerCase().includes("authenticate")
     ) {
       throw new Error(
-        "Invalid API key. Please check your OpenRouter API key and try again.",
+        `Invalid API key. Please check your ${provider.name} API key and try again.`,
+      );
+    }
+    if (response.status === 404 && provider.id !== "openrouter") {
+      throw new Error(
+        `${provider.name} doesn't know the model "${model}". Pick one from the list or load it on the server first.`,
       );
     }
     if (response.status === 402) {
@@ -288,12 +776,18 @@ async function callOpenRouter(
     }
     if (response.status === 502 || response.status === 503) {
       throw new Error(
-        "OpenRouter is temporarily unavailable. Please try again in a few seconds or pick a different model.",
+        `${provider.name} is temporarily unavailable. Please try again in a few seconds or pick a different model.`,
       );
     }
     throw new Error(message);
   }
 
+  // Some providers ignore `stream` and answer with a single JSON body
+  const contentType = response.headers.get("content-type") ?? "";
+  if (response.body && contentType.includes("text/event-stream")) {
+    return readCardStream(response.body, options);
+  }
+
   const data = await response.json();
   console.log("[Flashy] API response data:", {
     id: data.id,
@@ -313,10 +807,176 @@ async function callOpenRouter(
   }
 
   console.log("[Flashy] Raw response (first 300 chars):", text.slice(0, 300));
-  return parseJSON(text);
+  const collector = createCardCollector(options);
+  return collector.result(text, collector.addAll(text));
+}
+
+/**
+ * Validate raw card objects as they are parsed, forwarding the valid ones to `onCard`.
+ * `addAll` runs the full-text parser and returns its error message instead of throwing.
+ */
+function createCardCollector(options: CallOptions) {
+  const cards: Flashcard[] = [];
+  const issues: CardIssue[] = [];
+  let total = 0;
+  let invalidCount = 0;
+
+  const add = (raw: unknown) => {
+    const { card, issues: cardIssues } = validateCard(raw, total++);
+    issues.push(...cardIssues);
+    if (card) {
+      cards.push(card);
+      options.onCard?.(card);
+    } else {
+      invalidCount++;
+    }
+  };
+
+  return {
+    add,
+    get total() {
+      return total;
+    },
+    addAll(text: string): string | undefined {
+      try {
+        parseJSON(text).forEach(add);
+        return undefined;
+      } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+      }
+    },
+    result(text: string, parseError?: string): ChatResult {
+      return { text, cards, issues, total, invalidCount, parseError };
+    },
+  };
+}
+
+/**
+ * Consume a chat completions SSE stream, emitting cards as they complete.
+ * Falls back to the full-text parser (with its truncation recovery) if the
+ * incremental parser didn't find any complete cards.
+ */
+async function readCardStream(
+  body: ReadableStream<Uint8Array>,
+  options: CallOptions,
+): Promise<ChatResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createCardStreamParser();
+  const collector = createCardCollector(options);
+  let text = "";
+  let pending = "";
+  let finishReason: string | undefined;
+
+  const emit = (delta: string) => {
+    text += delta;
+    parser.push(delta).forEach(collector.add);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) {
+        // Blank lines separate events; lines starting with ":" are keep-alive comments
+        if (!line.startsWith("data:")) continue;
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") continue;
+
+        let event;
+        try {
+          event = JSON.parse(payload);
+        } catch {
+          continue;
+        }
+        if (event.error) {
+          throw new Error(event.error.message || "Model returned an error mid-stream");
+        }
+        const choice = event.choices?.[0];
+        if (choice?.delta?.content) emit(choice.delta.content);
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+      }
+    }
+  } catch (err) {
+    if (options.signal?.aborted) {
+      console.log(`[Flashy] Generation cancelled after ${collector.total} cards`);
+      return collector.result(text);
+    }
+    throw err;
+  } finally {
+    reader.releaseLock();
+  }
+
+  console.log("[Flashy] Stream complete:", {
+    finishReason,
+    contentLength: text.length,
+    cards: collector.total,
+  });
+
+  if (collector.total > 0) return collector.result(text);
+  if (!text) throw new Error("No response content from model");
+
+  console.log("[Flashy] Raw response (first 300 chars):", text.slice(0, 300));
+  return collector.result(text, collector.addAll(text));
 }
 
-function parseJSON(text: string): Flashcard[] {
+/**
+ * Incremental parser for a streamed JSON array of card objects.
+ * Tracks bracket depth and string/escape state across chunks, and yields each
+ * object directly inside the array as soon as its closing brace arrives.
+ */
+function createCardStreamParser() {
+  let buffer = "";
+  let pos = 0;
+  let depth = 0;
+  let arrayDepth = -1;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  return {
+    push(chunk: string): unknown[] {
+      buffer += chunk;
+      const found: unknown[] = [];
+
+      for (; pos < buffer.length; pos++) {
+        const ch = buffer[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === "\\") escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = depth > 0;
+        } else if (ch === "[" || ch === "{") {
+          if (ch === "[" && arrayDepth === -1) arrayDepth = depth + 1;
+          else if (ch === "{" && depth === arrayDepth) objectStart = pos;
+          depth++;
+        } else if (ch === "]" || ch === "}") {
+          depth = Math.max(depth - 1, 0);
+          if (ch === "}" && depth === arrayDepth && objectStart !== -1) {
+            try {
+              found.push(JSON.parse(buffer.slice(objectStart, pos + 1)));
+            } catch {
+              /* skip malformed object */
+            }
+            objectStart = -1;
+          }
+        }
+      }
+
+      return found;
+    },
+  };
+}
+
+function parseJSON(text: string): unknown[] {
   let cleanText = text
     .replace(/```json\n?/g, "")
     .replace(/```\n?/g, "")
@@ -324,7 +984,7 @@ function parseJSON(text: string): Flashcard[] {
 
   // Try direct parse first
   try {
-    const parsed = JSON.parse(cleanText);
+    const parsed = asCardArray(JSON.parse(cleanText));
     console.log(`[Flashy] Parsed ${parsed.length} cards from JSON`);
     return parsed;
   } catch {
@@ -359,7 +1019,7 @@ function parseJSON(text: string): Flashcard[] {
   const recovered = cleanText.slice(0, lastBrace + 1) + "]";
 
   try {
-    const parsed = JSON.parse(recovered);
+    const parsed = asCardArray(JSON.parse(recovered));
     console.log(
       `[Flashy] Recovered ${parsed.length} cards from truncated response`,
     );
@@ -373,7 +1033,7 @@ function parseJSON(text: string): Flashcard[] {
       /\{[^{}]*"front"\s*:\s*"[^"]*"[^{}]*"back"\s*:\s*"[^"]*"[^{}]*\}/g;
     const matches = cleanText.match(objectPattern);
     if (matches && matches.length > 0) {
-      const cards: Flashcard[] = [];
+      const cards: unknown[] = [];
       for (const m of matches) {
         try {
           cards.push(JSON.parse(m));
@@ -394,3 +1054,13 @@ function parseJSON(text: string): Flashcard[] {
     throw new Error("Failed to parse AI response as JSON");
   }
 }
+
+/** Accept a bare array, or an object wrapping one (e.g. `{ "flashcards": [...] }`) */
+function asCardArray(parsed: unknown): unknown[] {
+  if (Array.isArray(parsed)) return parsed;
+  if (typeof parsed === "object" && parsed !== null) {
+    const inner = Object.values(parsed).find(Array.isArray);
+    if (inner) return inner;
+  }
+  throw new Error("AI response is not a JSON array");
+}
@@ -1,10 +1,19 @@
 import initSqlJs from 'sql.js/dist/sql-asm.js';
 import JSZip from 'jszip';
 import type { Flashcard } from './ai';
+import { clozeNumbers, revealCloze } from './cloze';
+import { DEFAULT_DECK_OPTIONS, type DeckOptions } from './deckoptions';
+import { htmlToText, renderMarkdown } from './markdown';
+import {
+    CLOZE_FIELDS, CLOZE_TEMPLATE, DEFAULT_NOTE_TYPE, clozeCssFor, noteFieldValues, renderNoteCards, templateRequirements,
+    type NoteTypePreset,
+} from './notetypes';
+import { stepsLeft, type Grade, type ReviewLogEntry, type ReviewState } from './srs';
 
 let sqlPromise: Promise<any> | null = null;
 
-function getSql() {
+/** Load sql.js once; shared by the exporter and the .apkg importer */
+export function getSql() {
     if (!sqlPromise) {
         console.log('[Flashy] Initializing SQL.js (asm)...');
         sqlPromise = initSqlJs().then((SQL: any) => {
@@ -19,14 +28,144 @@ function getSql() {
     return sqlPromise;
 }
 
-export async function generateAnkiPackage(cards: Flashcard[], deckName: string): Promise<Blob> {
-    console.log('[Flashy] Generating Anki package...', { cards: cards.length, deckName });
+const GUID_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+// 53-bit string hash (cyrb53), so ids fit in a JS number and an SQLite integer
+function hash53(str: string, seed = 0): number {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// Anki ids are millisecond timestamps; keep derived ids inside a plausible range (2017-2030)
+function stableId(key: string): number {
+    return 1_500_000_000_000 + (hash53(key) % 400_000_000_000);
+}
+
+function stableGuid(key: string): string {
+    let guid = '';
+    for (const seed of [1, 2]) {
+        let n = hash53(key, seed);
+        for (let i = 0; i < 5; i++) {
+            guid += GUID_CHARS[n % GUID_CHARS.length];
+            n = Math.floor(n / GUID_CHARS.length);
+        }
+    }
+    return guid;
+}
+
+// Cards saved without an id fall back to their text, which is stable until edited
+function noteKeyFor(deckKey: string, card: Flashcard): string {
+    return `${deckKey}:${card.id ?? card.front}`;
+}
+
+/** The Anki note guid for a card; the same deck key and card always give the same guid */
+export function noteGuid(deckKey: string, card: Flashcard): string {
+    return card.guid ?? stableGuid(noteKeyFor(deckKey, card));
+}
+
+// Note types are shared by every Flashy deck so Anki doesn't create "Basic-xxxxx" copies per import;
+// each preset gets its own id, and the built-in Basic keeps the id of Flashy's original Basic model
+const modelIdFor = (preset: NoteTypePreset) => stableId(`flashy:model:${preset.id}`);
+const CLOZE_MODEL_ID = stableId('flashy:model:cloze');
+
+export interface AnkiExportOptions {
+    /**
+     * The DeckRecord id. It makes deck, note and card ids deterministic: together with each
+     * card's `id` it yields the same note guid on every export, so importing a newer export of a deck
+     * updates the existing notes in Anki (keeping their review history) instead of duplicating them.
+     * Without a key the export gets fresh ids, as for a one-off deck.
+     */
+    deckKey?: string;
+    /** Study-mode state keyed by card id; cards without one are exported as new */
+    reviews?: Record<string, ReviewState>;
+    reviewLog?: ReviewLogEntry[];
+    /** Written as the deck's own options group; without it the deck uses Anki's defaults */
+    deckOptions?: DeckOptions;
+}
+
+const REVLOG_EASE: Record<Grade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+const REVLOG_TYPE: Record<ReviewState['phase'], number> = { new: 0, learning: 0, review: 1, relearning: 2 };
+
+/**
+ * Translate study-mode state into Anki's card columns: type, queue, due, ivl, factor, reps, lapses, left.
+ * Review cards are due on a day number counted from the collection's `crt`; (re)learning cards at a Unix
+ * timestamp in seconds; new cards at their position in the deck.
+ */
+function schedulingColumns(state: ReviewState | undefined, position: number, crt: number, options: DeckOptions): number[] {
+    if (!state || state.phase === 'new') return [0, 0, position, 0, 0, 0, 0, 0];
+    const factor = Math.round(state.ease * 1000);
+    if (state.phase === 'review') {
+        const dueDay = Math.floor((state.due / 1000 - crt) / 86400);
+        return [2, 2, dueDay, state.interval, factor, state.reps, state.lapses, 0];
+    }
+    // `left` packs steps left today (thousands) and steps left in total, counted as if they all fit in a day
+    const left = stepsLeft(state, options) * 1001;
+    const type = state.phase === 'relearning' ? 3 : 1;
+    return [type, 1, Math.floor(state.due / 1000), state.interval, factor, state.reps, state.lapses, left];
+}
+
+/** An options group in the legacy `dconf` JSON */
+function dconfJson(id: number, options: DeckOptions, name: string, mod = 0) {
+    return {
+        id, name, mod, usn: mod ? -1 : 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: {
+            bury: true, delays: options.learningSteps, initialFactor: 2500, order: 1, perDay: options.newPerDay,
+            ints: [options.graduatingInterval, options.easyInterval, 7],
+        },
+        rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: options.maximumInterval, perDay: options.reviewsPerDay, minSpace: 1 },
+        lapse: { delays: options.relearningSteps, leechAction: 0, leechFails: options.leechThreshold, minInt: 1, mult: 0 },
+    };
+}
+
+/** Anki stores revlog intervals as days, or negative seconds when under a day */
+function revlogInterval(days: number): number {
+    return days >= 1 ? Math.round(days) : -Math.round(days * 86400);
+}
+
+/** One deck in a package, with the same options as a single-deck export */
+export interface AnkiPackageDeck extends AnkiExportOptions {
+    cards: Flashcard[];
+    deckName: string;
+}
+
+/** Full Anki deck name for a card: its subdeck path below the deck, joined with `::` */
+export function deckPathFor(deckName: string, card: Flashcard): string {
+    return card.subdeck ? `${deckName}::${card.subdeck}` : deckName;
+}
+
+/** Build an .apkg for the given cards */
+export async function generateAnkiPackage(
+    cards: Flashcard[], deckName: string, options: AnkiExportOptions = {}, noteType: NoteTypePreset = DEFAULT_NOTE_TYPE,
+): Promise<Blob> {
+    return generateMultiDeckPackage([{ ...options, cards, deckName }], noteType);
+}
+
+/**
+ * Build one .apkg holding several decks, e.g. a selection from the history. Cards with a subdeck go
+ * into `Deck::Subdeck`, and every level of a `Parent::Child` path gets its own entry in the decks JSON.
+ * Basic cards use the given note-type preset; cloze cards use the Cloze note type with the preset's CSS.
+ * `media` holds the images the cards show, by the file name their `<img>` tags use.
+ */
+export async function generateMultiDeckPackage(
+    packageDecks: AnkiPackageDeck[], noteType: NoteTypePreset = DEFAULT_NOTE_TYPE, media: Map<string, Blob> = new Map(),
+): Promise<Blob> {
+    const entries = packageDecks.map(deck => ({ ...deck, deckKey: deck.deckKey ?? crypto.randomUUID() }));
+    const totalCards = entries.reduce((sum, deck) => sum + deck.cards.length, 0);
+    console.log('[Flashy] Generating Anki package...', { decks: entries.map(d => d.deckName), cards: totalCards });
     const SQL = await getSql();
     const db = new SQL.Database();
 
     const now = Date.now();
-    const deckId = Math.floor(Math.random() * 1e13) + 1;
-    const modelId = Math.floor(Math.random() * 1e13) + 1;
+    const modelId = modelIdFor(noteType);
+    const clozeModelId = CLOZE_MODEL_ID;
 
     // Create Anki collection schema
     db.run(`CREATE TABLE col (id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL, ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL, conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL, tags text NOT NULL)`);
@@ -35,55 +174,131 @@ export async function generateAnkiPackage(cards: Flashcard[], deckName: string):
     db.run(`CREATE TABLE revlog (id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL, ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL, type integer NOT NULL)`);
     db.run(`CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL)`);
 
+    // Deck ids by full name. A deck's root keeps the id derived from its key, subdecks derive theirs from the
+    // key and path; parents that only exist as a path prefix get an id from their name, shared across decks.
+    const deckIds = new Map<string, number>();
+    const addDeck = (name: string, id: number): number => {
+        const parts = name.split('::');
+        for (let i = 1; i < parts.length; i++) {
+            const parent = parts.slice(0, i).join('::');
+            if (!deckIds.has(parent)) deckIds.set(parent, stableId(`deck-path:${parent}`));
+        }
+        if (!deckIds.has(name)) deckIds.set(name, id);
+        return deckIds.get(name)!;
+    };
+    const cardDeckIds = entries.map(({ cards, deckName, deckKey }) => {
+        addDeck(deckName, stableId(`deck:${deckKey}`));
+        return cards.map(card => addDeck(deckPathFor(deckName, card), stableId(`deck:${deckKey}::${card.subdeck ?? ''}`)));
+    });
+    const deckId = deckIds.get(entries[0]?.deckName ?? '') ?? 1;
+
     const model: Record<string, unknown> = {};
+    const fieldsJson = (names: string[]) =>
+        names.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] }));
     model[modelId.toString()] = {
-        id: modelId, name: 'Basic', type: 0, mod: Math.floor(now / 1000), usn: -1, sortf: 0, did: deckId,
-        tmpls: [{ name: 'Card 1', qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}', ord: 0, bafmt: '', bqfmt: '', did: null }],
-        flds: [
-            { name: 'Front', ord: 0, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] },
-            { name: 'Back', ord: 1, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] },
-        ],
-        css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }',
-        latexPre: '', latexPost: '', req: [[0, 'all', [0]]], tags: [], vers: [],
+        id: modelId, name: noteType.name, type: 0, mod: Math.floor(now / 1000), usn: -1, sortf: 0, did: deckId,
+        tmpls: noteType.templates.map((t, ord) => ({ ...t, ord, bafmt: '', bqfmt: '', did: null })),
+        flds: fieldsJson(noteType.fields),
+        css: noteType.css,
+        latexPre: '', latexPost: '', req: templateRequirements(noteType), tags: [], vers: [],
     };
+    // Cloze note type (type 1): one card per {{cN::...}} number, generated from a single template
+    model[clozeModelId.toString()] = {
+        id: clozeModelId, name: 'Cloze', type: 1, mod: Math.floor(now / 1000), usn: -1, sortf: 0, did: deckId,
+        tmpls: [{ ...CLOZE_TEMPLATE, ord: 0, bafmt: '', bqfmt: '', did: null }],
+        flds: fieldsJson(CLOZE_FIELDS),
+        css: clozeCssFor(noteType),
+        latexPre: '', latexPost: '', tags: [], vers: [],
+    };
+
+    // One options group per distinct set of deck options; decks without any use Default (id 1)
+    const dconf: Record<string, unknown> = { '1': dconfJson(1, DEFAULT_DECK_OPTIONS, 'Default') };
+    const confIds = entries.map(({ deckOptions }) => {
+        if (!deckOptions) return 1;
+        const id = stableId(`dconf:${JSON.stringify(deckOptions)}`);
+        dconf[id.toString()] = dconfJson(id, deckOptions, `Flashy: ${deckOptions.name}`, Math.floor(now / 1000));
+        return id;
+    });
+    // A deck's subdecks share its options; parents that only exist as a path prefix keep Default
+    const deckConf = new Map<number, number>();
+    entries.forEach((_, deckIdx) => cardDeckIds[deckIdx].forEach(id => deckConf.set(id, confIds[deckIdx])));
+    entries.forEach(({ deckName }, deckIdx) => deckConf.set(deckIds.get(deckName)!, confIds[deckIdx]));
 
     const decks: Record<string, unknown> = {
         '1': { id: 1, name: 'Default', mod: 0, usn: 0, lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0], collapsed: false, desc: '', dyn: 0, conf: 1, extendNew: 10, extendRev: 50 },
     };
-    decks[deckId.toString()] = {
-        id: deckId, name: deckName, mod: Math.floor(now / 1000), usn: -1,
-        lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0],
-        collapsed: false, desc: '', dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
-    };
-
-    const dconf = {
-        '1': {
-            id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true,
-            new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20 },
-            rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, perDay: 200, minSpace: 1 },
-            lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
-        },
-    };
+    for (const [name, id] of deckIds) {
+        decks[id.toString()] = {
+            id, name, mod: Math.floor(now / 1000), usn: -1,
+            lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0],
+            collapsed: false, desc: '', dyn: 0, conf: deckConf.get(id) ?? 1, extendNew: 10, extendRev: 50,
+        };
+    }
 
-    const conf = { activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: modelId, nextPos: cards.length + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true };
+    const conf = { activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: modelId, nextPos: totalCards + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true };
 
-    db.run(`INSERT INTO col VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?)`, [1, Math.floor(now / 1000), Math.floor(now / 1000), Math.floor(now / 1000), 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(model), JSON.stringify(decks), JSON.stringify(dconf), JSON.stringify({})]);
+    const crt = Math.floor(now / 1000);
+    db.run(`INSERT INTO col VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?)`, [1, crt, Math.floor(now / 1000), Math.floor(now / 1000), 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(model), JSON.stringify(decks), JSON.stringify(dconf), JSON.stringify({})]);
 
     const sep = '\x1f';
-    cards.forEach((card, idx) => {
-        const noteId = now + idx;
-        const cardId = now + idx + cards.length;
-        const guid = Array.from({ length: 10 }, () => 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'[Math.floor(Math.random() * 62)]).join('');
-        const tags = card.tags ? card.tags.join(' ') : '';
-        const front = card.front || '';
-        const back = card.back || '';
-        const flds = front + sep + back;
-        let csum = 0;
-        for (let i = 0; i < front.length; i++) { csum = ((csum << 5) - csum + front.charCodeAt(i)) | 0; }
-        csum = Math.abs(csum);
-
-        db.run(`INSERT INTO notes VALUES (?,?,?,?,?,?,?,?,?,?,?)`, [noteId, guid, modelId, Math.floor(now / 1000), -1, tags, flds, front, csum, 0, '']);
-        db.run(`INSERT INTO cards VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`, [cardId, noteId, deckId, 0, Math.floor(now / 1000), -1, 0, 0, idx + 1, 0, 0, 0, 0, 0, 0, 0, 0, '']);
+    const usedNoteIds = new Set<number>();
+    const usedRevlogIds = new Set<number>();
+    let position = 0;
+    entries.forEach(({ cards, deckKey, reviews = {}, reviewLog = [], deckOptions = DEFAULT_DECK_OPTIONS }, deckIdx) => {
+        const ankiCardIds = new Map<string, number[]>();
+        cards.forEach((card, idx) => {
+            position++;
+            const noteKey = noteKeyFor(deckKey, card);
+            let noteId = stableId(`note:${noteKey}`);
+            while (usedNoteIds.has(noteId)) noteId++;
+            usedNoteIds.add(noteId);
+            const isCloze = card.type === 'cloze';
+            const guid = noteGuid(deckKey, card);
+            const tags = card.tags ? card.tags.join(' ') : '';
+            const front = renderMarkdown(card.front || '');
+            const flds = isCloze
+                ? front + sep + renderMarkdown(card.back || '')
+                : Object.values(noteFieldValues(noteType, card)).join(sep);
+            // The sort field is the first field as plain text, with cloze markup removed
+            const sfld = htmlToText(isCloze ? revealCloze(front) : front);
+            let csum = 0;
+            for (let i = 0; i < sfld.length; i++) { csum = ((csum << 5) - csum + sfld.charCodeAt(i)) | 0; }
+            csum = Math.abs(csum);
+
+            db.run(`INSERT INTO notes VALUES (?,?,?,?,?,?,?,?,?,?,?)`, [noteId, guid, isCloze ? clozeModelId : modelId, Math.floor(now / 1000), -1, tags, flds, sfld, csum, 0, '']);
+
+            // Basic notes get a card per template with a non-empty front; cloze notes one per deletion number (ord = N - 1)
+            const clozes = isCloze ? clozeNumbers(card.front) : [];
+            const ords = isCloze
+                ? (clozes.length ? clozes.map(n => n - 1) : [0])
+                : renderNoteCards(noteType, card).map(c => c.ord);
+            if (!ords.length) ords.push(0);
+            // Flashy studies a cloze note as a whole, so each of its Anki cards gets the note's state. It only
+            // studies the front-to-back direction, so other templates (e.g. a reversed card) start as new.
+            const state = card.id ? reviews[card.id] : undefined;
+            const ids: number[] = [];
+            for (const ord of ords) {
+                const studied = isCloze || ord === 0;
+                const [type, queue, due, ivl, factor, reps, lapses, left] = schedulingColumns(studied ? state : undefined, position, crt, deckOptions);
+                const cardId = stableId(`card:${noteKey}:${ord}`);
+                if (studied) ids.push(cardId);
+                db.run(`INSERT INTO cards VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)`, [cardId, noteId, cardDeckIds[deckIdx][idx], ord, Math.floor(now / 1000), -1, type, queue, due, ivl, factor, reps, lapses, left, 0, 0, 0, '']);
+            }
+            if (card.id) ankiCardIds.set(card.id, ids);
+        });
+
+        // Review history: one revlog row per answer per Anki card, keyed by the answer's timestamp
+        for (const entry of reviewLog) {
+            for (const cid of ankiCardIds.get(entry.cardId) ?? []) {
+                let id = entry.reviewedAt;
+                while (usedRevlogIds.has(id)) id++;
+                usedRevlogIds.add(id);
+                db.run(`INSERT INTO revlog VALUES (?,?,?,?,?,?,?,?,?)`, [
+                    id, cid, -1, REVLOG_EASE[entry.grade], revlogInterval(entry.interval), revlogInterval(entry.lastInterval),
+                    Math.round(entry.ease * 1000), Math.round(entry.durationMs), REVLOG_TYPE[entry.phase],
+                ]);
+            }
+        }
     });
 
     const dbBinary = db.export();
@@ -92,20 +307,17 @@ export async function generateAnkiPackage(cards: Flashcard[], deckName: string):
 
     const zip = new JSZip();
     zip.file('collection.anki2', dbBinary);
-    zip.file('media', '{}');
+    // Media files are stored as "0", "1", ... with a map back to the names the notes use
+    const mediaMap: Record<string, string> = {};
+    let index = 0;
+    for (const [name, file] of media) {
+        zip.file(String(index), await file.arrayBuffer());
+        mediaMap[index++] = name;
+    }
+    zip.file('media', JSON.stringify(mediaMap));
+    if (media.size) console.log('[Flashy] Packaged', media.size, 'media files');
 
     const blob = await zip.generateAsync({ type: 'blob' });
     console.log('[Flashy] Anki package ready, size:', blob.size, 'bytes');
     return blob;
 }
-
-export function downloadDeck(blob: Blob, fileName: string) {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName.endsWith('.apkg') ? fileName : `${fileName}.apkg`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-}
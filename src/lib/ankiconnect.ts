@@ -0,0 +1,266 @@
+import type { Flashcard } from './ai';
+import { deckPathFor } from './anki';
+import { renderMarkdown } from './markdown';
+import { blobToBase64 } from './media';
+import {
+  CLOZE_FIELDS, CLOZE_TEMPLATE, DEFAULT_NOTE_TYPE, clozeCssFor, noteFieldValues,
+  type CardTemplate, type NoteTypePreset,
+} from './notetypes';
+import type { DeckRecord } from './storage';
+
+/**
+ * Client for the AnkiConnect add-on's HTTP API, which lets Flashy add decks to a running Anki
+ * without an .apkg round-trip. The browser talks to it directly, so the page's origin has to be
+ * listed in AnkiConnect's `webCorsOriginList`; `requestPermission` asks the user in Anki otherwise.
+ */
+
+export const DEFAULT_ANKICONNECT_URL = 'http://127.0.0.1:8765';
+const API_VERSION = 6;
+const SETTINGS_KEY = 'flashy_ankiconnect_url';
+
+interface AnkiNoteType {
+  name: string;
+  fields: string[];
+  templates: CardTemplate[];
+  css: string;
+  isCloze: boolean;
+}
+
+/** Flashy's own note types, so pushing never touches the user's Basic and Cloze: "Flashy <preset>" and "Flashy Cloze" */
+export function ankiNoteTypes(preset: NoteTypePreset): { basic: AnkiNoteType; cloze: AnkiNoteType } {
+  return {
+    basic: { name: `Flashy ${preset.name}`, fields: preset.fields, templates: preset.templates, css: preset.css, isCloze: false },
+    cloze: { name: 'Flashy Cloze', fields: CLOZE_FIELDS, templates: [CLOZE_TEMPLATE], css: clozeCssFor(preset), isCloze: true },
+  };
+}
+
+export type PushableDeck = Pick<DeckRecord, 'deckName' | 'cards' | 'ankiNoteIds'>;
+
+export type PushStatus = 'added' | 'updated' | 'duplicate' | 'failed';
+
+export interface PushNoteResult {
+  card: Flashcard;
+  status: PushStatus;
+  noteId?: number;
+  cardIds?: number[];     // the note's cards in Anki, known for notes from an earlier push
+  error?: string;
+}
+
+export interface PushResult {
+  notes: PushNoteResult[];            // one per card, in deck order
+  noteIds: Record<string, number>;    // Anki note id per card id, to save on the deck for the next push
+}
+
+interface AnkiConnectResponse<T> {
+  result: T;
+  error: string | null;
+}
+
+interface AnkiNote {
+  deckName: string;
+  modelName: string;
+  fields: Record<string, string>;
+  tags: string[];
+  options: { allowDuplicate: boolean; duplicateScope: 'deck' };
+}
+
+export function loadAnkiConnectUrl(): string {
+  return localStorage.getItem(SETTINGS_KEY) || DEFAULT_ANKICONNECT_URL;
+}
+
+export function saveAnkiConnectUrl(url: string): string {
+  const normalized = url.trim().replace(/\/+$/, '');
+  if (!normalized || normalized === DEFAULT_ANKICONNECT_URL) {
+    localStorage.removeItem(SETTINGS_KEY);
+    return DEFAULT_ANKICONNECT_URL;
+  }
+  localStorage.setItem(SETTINGS_KEY, normalized);
+  return normalized;
+}
+
+/** Call one AnkiConnect action, throwing its error message if it fails */
+export async function invokeAnkiConnect<T>(url: string, action: string, params: object = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      body: JSON.stringify({ action, version: API_VERSION, params }),
+    });
+  } catch (fetchErr) {
+    console.error('[Flashy] AnkiConnect fetch error:', fetchErr);
+    throw new Error(
+      `Could not reach Anki at ${url}. Make sure Anki is running with the AnkiConnect add-on, and that its webCorsOriginList allows ${window.location.origin}.`,
+    );
+  }
+  if (!response.ok) throw new Error(`AnkiConnect request failed (${response.status})`);
+
+  const body = await response.json() as AnkiConnectResponse<T>;
+  if (body.error) throw new Error(`AnkiConnect: ${body.error}`);
+  return body.result;
+}
+
+/**
+ * Send a deck to Anki: create the deck and Flashy's note types if needed, update the notes that an
+ * earlier push created (matched through `ankiNoteIds`) and add the rest. Each card gets its own result,
+ * so one duplicate or bad note doesn't stop the others. Updated notes get the card's current fields,
+ * tags and (sub)deck.
+ * Basic cards use the given note-type preset. `media` holds the images the cards show; they're copied
+ * into Anki's media folder first, under the names the notes use.
+ */
+export async function pushDeck(
+  deck: PushableDeck, url: string, preset: NoteTypePreset = DEFAULT_NOTE_TYPE, media: Map<string, Blob> = new Map(),
+): Promise<PushResult> {
+  console.log(`[Flashy] Pushing "${deck.deckName}" to AnkiConnect at ${url}...`);
+  const permission = await invokeAnkiConnect<{ permission: string }>(url, 'requestPermission');
+  if (permission.permission !== 'granted') {
+    throw new Error('Anki refused the connection. Allow Flashy when Anki asks, or add this page to AnkiConnect\'s webCorsOriginList.');
+  }
+
+  // Creating `Deck::Subdeck` creates its parents too
+  for (const name of new Set(deck.cards.map(card => deckPathFor(deck.deckName, card)))) {
+    await invokeAnkiConnect(url, 'createDeck', { deck: name });
+  }
+  const types = ankiNoteTypes(preset);
+  await ensureNoteTypes(url, types);
+  for (const [filename, file] of media) {
+    await invokeAnkiConnect(url, 'storeMediaFile', { filename, data: await blobToBase64(file) });
+  }
+  const noteTypeFor = (card: Flashcard) => card.type === 'cloze' ? types.cloze : types.basic;
+  const toAnkiNote = (card: Flashcard): AnkiNote => {
+    const type = noteTypeFor(card);
+    return {
+      deckName: deckPathFor(deck.deckName, card),
+      modelName: type.name,
+      fields: type.isCloze
+        ? { [type.fields[0]]: renderMarkdown(card.front), [type.fields[1]]: renderMarkdown(card.back) }
+        : noteFieldValues(preset, card),
+      tags: card.tags ?? [],
+      options: { allowDuplicate: false, duplicateScope: 'deck' },
+    };
+  };
+
+  const results: PushNoteResult[] = deck.cards.map(card => ({ card, status: 'failed' }));
+  const knownIds = deck.ankiNoteIds ?? {};
+
+  // Notes from an earlier push are updated in place, as long as they still exist with the same note type
+  const toUpdate = results.filter(r => r.card.id && knownIds[r.card.id]);
+  const infos = toUpdate.length
+    ? await invokeAnkiConnect<({ noteId?: number; modelName?: string; cards?: number[] })[]>(url, 'notesInfo', {
+      notes: toUpdate.map(r => knownIds[r.card.id!]),
+    })
+    : [];
+  const updates: PushNoteResult[] = [];
+  toUpdate.forEach((r, i) => {
+    const info = infos[i];
+    if (!info?.noteId) return;      // deleted in Anki since; add it again
+    r.noteId = info.noteId;
+    r.cardIds = info.cards ?? [];
+    if (info.modelName !== noteTypeFor(r.card).name) {
+      r.error = `The note in Anki is a "${info.modelName}" note; delete it there to send this card again`;
+      return;
+    }
+    updates.push(r);
+  });
+  if (updates.length) {
+    // Three actions per note: its fields, its tags, and the deck its cards are in
+    const responses = await invokeAnkiConnect<(AnkiConnectResponse<null> | null)[]>(url, 'multi', {
+      actions: updates.flatMap(r => {
+        const note = toAnkiNote(r.card);
+        return [
+          { action: 'updateNoteFields', params: { note: { id: r.noteId, fields: note.fields } } },
+          { action: 'updateNoteTags', params: { note: r.noteId, tags: note.tags } },
+          { action: 'changeDeck', params: { cards: r.cardIds, deck: note.deckName } },
+        ].map(action => ({ ...action, version: API_VERSION }));
+      }),
+    });
+    updates.forEach((r, i) => {
+      const error = responses.slice(i * 3, i * 3 + 3).find(response => response?.error)?.error;
+      if (error) r.error = error;
+      else r.status = 'updated';
+    });
+  }
+
+  // Everything else is added; AnkiConnect checks each note first so duplicates can be told apart from errors
+  const toAdd = results.filter(r => r.noteId === undefined);
+  const addable = await checkAddable(url, toAdd.map(r => [r, toAnkiNote(r.card)]));
+  if (addable.length) {
+    const ids = await invokeAnkiConnect<(number | null)[]>(url, 'addNotes', {
+      notes: addable.map(r => toAnkiNote(r.card)),
+    });
+    addable.forEach((r, i) => {
+      if (ids[i]) {
+        r.noteId = ids[i];
+        r.status = 'added';
+      } else {
+        r.error = 'Anki could not add this note';
+      }
+    });
+    // Notes that still failed usually duplicate another card in the same push; ask again for the reason
+    await checkAddable(url, addable.filter(r => r.status !== 'added').map(r => [r, toAnkiNote(r.card)]));
+  }
+
+  const noteIds: Record<string, number> = {};
+  for (const r of results) {
+    if (r.card.id && r.noteId) noteIds[r.card.id] = r.noteId;
+  }
+  console.log('[Flashy] AnkiConnect push finished', countByStatus(results));
+  return { notes: results, noteIds };
+}
+
+export function countByStatus(notes: PushNoteResult[]): Record<PushStatus, number> {
+  const counts: Record<PushStatus, number> = { added: 0, updated: 0, duplicate: 0, failed: 0 };
+  for (const note of notes) counts[note.status]++;
+  return counts;
+}
+
+/** Record why each note can't be added, returning the ones that can */
+async function checkAddable(url: string, pending: [PushNoteResult, AnkiNote][]): Promise<PushNoteResult[]> {
+  if (!pending.length) return [];
+  const checks = await invokeAnkiConnect<{ canAdd: boolean; error?: string }[]>(url, 'canAddNotesWithErrorDetail', {
+    notes: pending.map(([, note]) => note),
+  });
+  return pending.flatMap(([r], i) => {
+    if (checks[i].canAdd) return [r];
+    r.error = checks[i].error ?? 'Anki could not add this note';
+    if (/duplicate/i.test(r.error)) r.status = 'duplicate';
+    return [];
+  });
+}
+
+/**
+ * Create the note types that are missing, and bring the styling and templates of existing ones up to date
+ * with the preset, adding templates the preset gained since (e.g. a reversed card). Fields aren't changed
+ * in Anki: rename a preset after changing its fields.
+ */
+async function ensureNoteTypes(url: string, types: { basic: AnkiNoteType; cloze: AnkiNoteType }): Promise<void> {
+  const existing = await invokeAnkiConnect<string[]>(url, 'modelNames');
+  for (const type of Object.values(types)) {
+    if (existing.includes(type.name)) {
+      await invokeAnkiConnect(url, 'updateModelStyling', { model: { name: type.name, css: type.css } });
+      // updateModelTemplates skips names the note type doesn't have, so new templates are added first
+      const current = await invokeAnkiConnect<Record<string, unknown>>(url, 'modelTemplates', { modelName: type.name });
+      for (const t of type.templates.filter(t => !(t.name in current))) {
+        console.log(`[Flashy] Adding card template "${t.name}" to "${type.name}" in Anki`);
+        await invokeAnkiConnect(url, 'modelTemplateAdd', {
+          modelName: type.name,
+          template: { Name: t.name, Front: t.qfmt, Back: t.afmt },
+        });
+      }
+      await invokeAnkiConnect(url, 'updateModelTemplates', {
+        model: {
+          name: type.name,
+          templates: Object.fromEntries(type.templates.map(t => [t.name, { Front: t.qfmt, Back: t.afmt }])),
+        },
+      });
+      continue;
+    }
+    console.log(`[Flashy] Creating note type "${type.name}" in Anki`);
+    await invokeAnkiConnect(url, 'createModel', {
+      modelName: type.name,
+      inOrderFields: type.fields,
+      css: type.css,
+      isCloze: type.isCloze,
+      cardTemplates: type.templates.map(t => ({ Name: t.name, Front: t.qfmt, Back: t.afmt })),
+    });
+  }
+}
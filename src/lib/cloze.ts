@@ -0,0 +1,74 @@
+/** Matches one deletion: {{c1::answer}} or {{c1::answer::hint}} */
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export type ClozeSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'cloze'; index: number; answer: string; hint?: string };
+
+export function hasClozeMarkers(text: string): boolean {
+  return new RegExp(CLOZE_PATTERN.source).test(text);
+}
+
+/** Split cloze text into plain runs and deletions, in order */
+export function parseCloze(text: string): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+  for (const m of text.matchAll(CLOZE_PATTERN)) {
+    if (m.index > last) segments.push({ kind: 'text', text: text.slice(last, m.index) });
+    segments.push({ kind: 'cloze', index: Number(m[1]), answer: m[2], hint: m[3] || undefined });
+    last = m.index + m[0].length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+}
+
+/** Distinct deletion numbers in ascending order — Anki makes one card per number */
+export function clozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const m of text.matchAll(CLOZE_PATTERN)) numbers.add(Number(m[1]));
+  return [...numbers].sort((a, b) => a - b);
+}
+
+/**
+ * Check that cloze text is well-formed for Anki.
+ * Returns a list of problems; an empty list means the text is valid.
+ */
+export function validateClozeText(text: string): string[] {
+  const problems: string[] = [];
+  const numbers = clozeNumbers(text);
+
+  if (numbers.length === 0) {
+    problems.push('no {{c1::...}} deletions found');
+  }
+  if (numbers.includes(0)) {
+    problems.push('deletion numbers start at c1, not c0');
+  }
+
+  for (const m of text.matchAll(CLOZE_PATTERN)) {
+    if (!m[2].trim()) problems.push(`{{c${m[1]}::}} has an empty answer`);
+    if (m[2].includes('{{')) problems.push(`{{c${m[1]}::...}} contains a nested deletion`);
+  }
+
+  // Whatever is left after removing valid deletions must not contain stray markers
+  const remainder = text.replace(CLOZE_PATTERN, '');
+  if (/\{\{c\d*:?:?|\}\}/.test(remainder)) {
+    problems.push('unbalanced or malformed {{c…::…}} marker');
+  }
+
+  return problems;
+}
+
+/** Plain text of the note with every deletion revealed (used for Anki's sort field) */
+export function revealCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_, _n, answer) => answer);
+}
+
+/** Replace every deletion with the result of `replace` */
+export function replaceCloze(text: string, replace: (deletion: { index: number; answer: string; hint?: string }) => string): string {
+  return text.replace(CLOZE_PATTERN, (_, n, answer, hint) => replace({ index: Number(n), answer, hint: hint || undefined }));
+}
+
+/** Text with every deletion blanked out as `[...]` (or `[hint]`), for formats without cloze support */
+export function maskCloze(text: string): string {
+  return replaceCloze(text, ({ hint }) => `[${hint ?? '...'}]`);
+}
@@ -0,0 +1,144 @@
+/**
+ * Anki deck options ("options groups") for exported decks. The chosen preset is saved with each deck
+ * and written into the package as its own options group; user-defined presets live in localStorage.
+ */
+
+export interface DeckOptions {
+  name: string;
+  newPerDay: number;
+  reviewsPerDay: number;
+  learningSteps: number[];      // minutes
+  relearningSteps: number[];    // minutes
+  graduatingInterval: number;   // days
+  easyInterval: number;         // days
+  maximumInterval: number;      // days
+  leechThreshold: number;       // lapses before a card is tagged as a leech
+}
+
+const STORAGE_KEY = 'flashy_deck_options';
+
+// Anki's own defaults, and what packages used before deck options could be chosen
+export const DEFAULT_DECK_OPTIONS: DeckOptions = {
+  name: 'Default',
+  newPerDay: 20,
+  reviewsPerDay: 200,
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  graduatingInterval: 1,
+  easyInterval: 4,
+  maximumInterval: 36500,
+  leechThreshold: 8,
+};
+
+export const BUILT_IN_DECK_OPTIONS: DeckOptions[] = [
+  DEFAULT_DECK_OPTIONS,
+  {
+    name: 'Exam cram',
+    newPerDay: 50,
+    reviewsPerDay: 500,
+    learningSteps: [1, 10, 60],
+    relearningSteps: [10],
+    graduatingInterval: 1,
+    easyInterval: 2,
+    maximumInterval: 30,
+    leechThreshold: 8,
+  },
+  {
+    name: 'Long-term',
+    newPerDay: 10,
+    reviewsPerDay: 100,
+    learningSteps: [10, 1440],
+    relearningSteps: [10],
+    graduatingInterval: 3,
+    easyInterval: 5,
+    maximumInterval: 3650,
+    leechThreshold: 6,
+  },
+];
+
+/** Built-in presets followed by the user's own */
+export function loadDeckOptionPresets(): DeckOptions[] {
+  return [...BUILT_IN_DECK_OPTIONS, ...loadCustom()];
+}
+
+function loadCustom(): DeckOptions[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as DeckOptions[];
+  } catch {
+    return [];
+  }
+}
+
+/** Save options under their name, replacing a custom preset with the same name */
+export function saveDeckOptionPreset(options: DeckOptions): DeckOptions {
+  const normalized = validateDeckOptions(options);
+  if (BUILT_IN_DECK_OPTIONS.some(p => p.name === normalized.name)) {
+    throw new Error(`"${normalized.name}" is a built-in preset; pick another name`);
+  }
+  const custom = loadCustom().filter(p => p.name !== normalized.name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...custom, normalized]));
+  return normalized;
+}
+
+export function deleteDeckOptionPreset(name: string) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadCustom().filter(p => p.name !== name)));
+}
+
+const wholeNumber = (value: number, label: string, min: number) => {
+  if (!Number.isInteger(value) || value < min) throw new Error(`${label} must be a whole number of at least ${min}`);
+  return value;
+};
+
+/** Check options before they're saved or exported; throws a message fit for the user */
+export function validateDeckOptions(options: DeckOptions): DeckOptions {
+  const name = options.name.trim();
+  if (!name) throw new Error('The preset needs a name');
+  if (!options.learningSteps.length) throw new Error('Add at least one learning step');
+  for (const step of [...options.learningSteps, ...options.relearningSteps]) {
+    if (!(step > 0)) throw new Error('Steps must be longer than zero');
+  }
+  const maximumInterval = wholeNumber(options.maximumInterval, 'Maximum interval', 1);
+  const graduatingInterval = wholeNumber(options.graduatingInterval, 'Graduating interval', 1);
+  const easyInterval = wholeNumber(options.easyInterval, 'Easy interval', 1);
+  if (graduatingInterval > maximumInterval || easyInterval > maximumInterval) {
+    throw new Error('Graduating and easy intervals can\'t be longer than the maximum interval');
+  }
+  return {
+    name,
+    newPerDay: wholeNumber(options.newPerDay, 'New cards/day', 0),
+    reviewsPerDay: wholeNumber(options.reviewsPerDay, 'Maximum reviews/day', 0),
+    learningSteps: options.learningSteps,
+    relearningSteps: options.relearningSteps,
+    graduatingInterval,
+    easyInterval,
+    maximumInterval,
+    leechThreshold: wholeNumber(options.leechThreshold, 'Leech threshold', 1),
+  };
+}
+
+const STEP_UNITS: Record<string, number> = { s: 1 / 60, m: 1, h: 60, d: 1440 };
+
+/** Read steps the way Anki's options screen writes them, e.g. "1m 10m 1d"; bare numbers are minutes */
+export function parseSteps(text: string): number[] | null {
+  const steps: number[] = [];
+  for (const token of text.trim().split(/[\s,]+/).filter(Boolean)) {
+    const match = /^(\d+(?:\.\d+)?)([smhd]?)$/i.exec(token);
+    if (!match) return null;
+    steps.push(Number(match[1]) * STEP_UNITS[(match[2] || 'm').toLowerCase()]);
+  }
+  return steps;
+}
+
+export function formatSteps(steps: number[]): string {
+  return steps.map(minutes => {
+    if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440}d`;
+    if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60}h`;
+    if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+    return `${minutes}m`;
+  }).join(' ');
+}
+
+/** Whether two option sets schedule identically, ignoring their names */
+export function sameDeckOptions(a: DeckOptions, b: DeckOptions): boolean {
+  return JSON.stringify({ ...a, name: '' }) === JSON.stringify({ ...b, name: '' });
+}
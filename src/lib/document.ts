@@ -0,0 +1,285 @@
+export type SourceType = 'pdf' | 'docx' | 'pptx' | 'markdown' | 'text' | 'image' | 'apkg';
+
+export interface DocumentSection {
+  title: string;
+  level: number;          // 0 = page/slide/preamble, 1-6 = heading depth
+  pageStart?: number;     // 1-based page (PDF) or slide (PPTX) number
+  pageEnd?: number;
+  text: string;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  pageCount?: number;     // pages for PDF, slides for PPTX
+  pageLabel?: 'Page' | 'Slide';
+  ocrPages?: number[];    // PDF pages whose text was read with OCR because they had no text layer
+  wordCount: number;
+  charCount: number;
+}
+
+/** A picture found in the document, offered when adding images to cards */
+export interface DocumentImage {
+  label: string;          // e.g. "Page 3, image 1"
+  blob: Blob;
+  pageStart?: number;     // page (PDF) or slide (PPTX) it appears on
+}
+
+export interface ExtractedDocument {
+  sourceFile: string;
+  sourceType: SourceType;
+  sections: DocumentSection[];
+  metadata: DocumentMetadata;
+  images?: DocumentImage[];
+}
+
+/** Build a document, filling in the word and character counts from its sections */
+export function createDocument(
+  sourceFile: string,
+  sourceType: SourceType,
+  sections: DocumentSection[],
+  metadata: Omit<DocumentMetadata, 'wordCount' | 'charCount'> = {},
+): ExtractedDocument {
+  const text = sections.map(s => `${s.title}\n${s.text}`).join('\n');
+  return {
+    sourceFile,
+    sourceType,
+    sections,
+    metadata: {
+      ...metadata,
+      wordCount: countWords(text),
+      charCount: sections.reduce((sum, s) => sum + s.text.length, 0),
+    },
+  };
+}
+
+/** Wrap pasted or plain text, splitting on Markdown headings if it has any */
+export function createTextDocument(text: string, sourceFile = 'Pasted text', sourceType: SourceType = 'text'): ExtractedDocument {
+  return createDocument(sourceFile, sourceType, splitByHeadings(text));
+}
+
+/**
+ * Split Markdown-style text into one section per `#` heading.
+ * Text before the first heading becomes an untitled level-0 section; headings inside code fences are ignored.
+ */
+export function splitByHeadings(text: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { title: '', level: 0, text: '' };
+  let inFence = false;
+
+  const push = () => {
+    current.text = current.text.trim();
+    if (current.title || current.text) sections.push(current);
+  };
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      push();
+      current = { title: heading[2], level: heading[1].length, text: '' };
+    } else {
+      current.text += `${line}\n`;
+    }
+  }
+  push();
+
+  return sections;
+}
+
+/**
+ * Flatten a document back into prompt text.
+ * Paged sources keep their `--- Page N ---` / `--- Slide N ---` markers so the model can cite locations.
+ */
+export function flattenDocument(doc: ExtractedDocument): string {
+  return doc.sections.map(section => flattenSection(doc, section)).join('\n\n').trim();
+}
+
+export function flattenSection(doc: ExtractedDocument, section: DocumentSection): string {
+  const parts: string[] = [];
+  const label = doc.metadata.pageLabel;
+  if (label && section.pageStart !== undefined) {
+    const range = section.pageEnd !== undefined && section.pageEnd !== section.pageStart
+      ? `${section.pageStart}-${section.pageEnd}`
+      : `${section.pageStart}`;
+    parts.push(`--- ${label} ${range} ---`);
+  }
+  if (section.title && section.level > 0) {
+    parts.push(`${'#'.repeat(section.level)} ${section.title}`);
+  }
+  if (section.text) parts.push(section.text);
+  return parts.join('\n');
+}
+
+/** The part of a document that cards were generated from, saved with the deck */
+export interface SourceSelection {
+  sections: number[];     // indexes into the extracted document's sections
+  totalSections: number;
+  pages?: string;         // the chosen pages or slides as ranges, e.g. "4-6, 9", for paged documents
+}
+
+/** A copy of the document with only the given sections, for generating from part of it */
+export function selectSections(doc: ExtractedDocument, indexes: number[]): ExtractedDocument {
+  const keep = new Set(indexes);
+  // Word and character counts are recounted for the chosen sections
+  return {
+    ...createDocument(doc.sourceFile, doc.sourceType, doc.sections.filter((_, i) => keep.has(i)), doc.metadata),
+    images: doc.images,
+  };
+}
+
+/** Record which sections were chosen, or nothing when that's the whole document */
+export function describeSelection(doc: ExtractedDocument, indexes: number[]): SourceSelection | undefined {
+  if (indexes.length === doc.sections.length) return undefined;
+  const pages = doc.metadata.pageLabel
+    ? indexes.flatMap(i => {
+      const { pageStart, pageEnd = pageStart } = doc.sections[i];
+      if (pageStart === undefined || pageEnd === undefined) return [];
+      return Array.from({ length: pageEnd - pageStart + 1 }, (_, n) => pageStart + n);
+    })
+    : [];
+  return {
+    sections: indexes,
+    totalSections: doc.sections.length,
+    ...(pages.length ? { pages: formatPageRange(pages) } : {}),
+  };
+}
+
+/**
+ * Read a page range the way print dialogs take them, e.g. "4-6, 9". Returns the pages in order,
+ * or null if the text isn't a range or names a page outside 1..`pageCount`.
+ */
+export function parsePageRange(text: string, pageCount: number): number[] | null {
+  const pages = new Set<number>();
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (!parts.length) return null;
+  for (const part of parts) {
+    const match = /^(\d+)\s*(?:[-–]\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end < start || end > pageCount) return null;
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/** Pages as the shortest range text, e.g. [4, 5, 6, 9] → "4-6, 9" */
+export function formatPageRange(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(sorted[i] === start ? `${start}` : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(', ');
+}
+
+/** Indexes of the sections that fall on any of the given pages */
+export function sectionsOnPages(doc: ExtractedDocument, pages: number[]): number[] {
+  const wanted = new Set(pages);
+  return doc.sections.flatMap((section, i) => {
+    const { pageStart, pageEnd = pageStart } = section;
+    if (pageStart === undefined || pageEnd === undefined) return [];
+    for (let page = pageStart; page <= pageEnd; page++) {
+      if (wanted.has(page)) return [i];
+    }
+    return [];
+  });
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export interface DocumentChunk {
+  index: number;
+  sections: DocumentSection[];
+  text: string;           // flattened text for this chunk, markers included
+}
+
+/**
+ * Group a document's sections into chunks of at most `maxChars` flattened characters.
+ * Chunks break on section (page/slide/heading) boundaries; a single section that is
+ * itself too long is split on paragraph boundaries, falling back to a hard cut.
+ */
+export function chunkDocument(doc: ExtractedDocument, maxChars: number): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let sections: DocumentSection[] = [];
+  let parts: string[] = [];
+  let length = 0;
+
+  const push = () => {
+    if (!parts.length) return;
+    chunks.push({ index: chunks.length, sections, text: parts.join('\n\n') });
+    sections = [];
+    parts = [];
+    length = 0;
+  };
+
+  for (const section of doc.sections) {
+    const pieces = splitOversizedSection(doc, section, maxChars);
+    for (const piece of pieces) {
+      const text = flattenSection(doc, piece);
+      if (length + text.length + 2 > maxChars) push();
+      sections.push(piece);
+      parts.push(text);
+      length += text.length + 2;
+    }
+  }
+  push();
+
+  return chunks;
+}
+
+export interface SectionGroup {
+  title?: string;         // the heading that opens the group; absent for text before the first heading
+  sections: DocumentSection[];
+}
+
+/**
+ * Split a document at its top-level headings, e.g. the chapters of a textbook. Text before the first
+ * heading forms an untitled group; a document without headings (PDF pages, slides) is a single group.
+ */
+export function groupSectionsByHeading(doc: ExtractedDocument): SectionGroup[] {
+  const levels = doc.sections.map(s => s.level).filter(level => level > 0);
+  if (!levels.length) return [{ sections: doc.sections }];
+  const top = Math.min(...levels);
+
+  const groups: SectionGroup[] = [];
+  for (const section of doc.sections) {
+    if (section.level === top) groups.push({ title: section.title, sections: [] });
+    else if (!groups.length) groups.push({ sections: [] });
+    groups[groups.length - 1].sections.push(section);
+  }
+  return groups;
+}
+
+function splitOversizedSection(doc: ExtractedDocument, section: DocumentSection, maxChars: number): DocumentSection[] {
+  // Leave room for the marker/heading lines that flattenSection adds
+  const overhead = flattenSection(doc, { ...section, text: '' }).length + 1;
+  const budget = Math.max(maxChars - overhead, 1);
+  if (section.text.length <= budget) return [section];
+
+  const pieces: DocumentSection[] = [];
+  let current = '';
+  for (const paragraph of section.text.split(/\n{2,}/)) {
+    let rest = paragraph;
+    while (rest.length > budget) {
+      if (current) {
+        pieces.push({ ...section, text: current });
+        current = '';
+      }
+      pieces.push({ ...section, text: rest.slice(0, budget) });
+      rest = rest.slice(budget);
+    }
+    if (current && current.length + rest.length + 2 > budget) {
+      pieces.push({ ...section, text: current });
+      current = '';
+    }
+    current = current ? `${current}\n\n${rest}` : rest;
+  }
+  if (current) pieces.push({ ...section, text: current });
+
+  return pieces;
+}
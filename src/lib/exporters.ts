@@ -0,0 +1,209 @@
+import type { Flashcard } from './ai';
+import { deckPathFor, generateMultiDeckPackage, noteGuid, type AnkiPackageDeck } from './anki';
+import { maskCloze, replaceCloze, revealCloze } from './cloze';
+import { renderMarkdown } from './markdown';
+import { loadCardMedia } from './media';
+import { loadSelectedNoteType } from './notetypes';
+import type { DeckRecord } from './storage';
+
+export type ExportFormat = 'apkg' | 'anki-tsv' | 'csv' | 'json' | 'obsidian' | 'quizlet';
+
+/** What an exporter needs: a saved DeckRecord, or the unsaved cards on screen */
+export type ExportableDeck = Pick<DeckRecord, 'deckName' | 'cards' | 'reviews' | 'reviewLog' | 'ankiNoteIds' | 'deckOptions'> & { id?: string };
+
+export interface Exporter {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  extension: string;
+  export: (deck: ExportableDeck) => Promise<Blob>;
+}
+
+/** Every export format, in the order shown in the download menu; the first is the default */
+export const EXPORTERS: Exporter[] = [
+  {
+    id: 'apkg',
+    label: 'Anki package (.apkg)',
+    description: 'Double-click to import; keeps study progress',
+    extension: 'apkg',
+    export: async deck => generateMultiDeckPackage([toPackageDeck(deck)], loadSelectedNoteType(), await loadCardMedia(deck.cards)),
+  },
+  {
+    id: 'anki-tsv',
+    label: 'Anki text (.txt)',
+    description: 'File → Import in Anki 2.1.55+, Basic and Cloze notes',
+    extension: 'txt',
+    export: async deck => textBlob(exportAnkiText(deck), 'text/plain'),
+  },
+  {
+    id: 'csv',
+    label: 'CSV (.csv)',
+    description: 'Spreadsheets, Mochi and other CSV importers',
+    extension: 'csv',
+    export: async deck => textBlob(exportCsv(deck), 'text/csv'),
+  },
+  {
+    id: 'json',
+    label: 'JSON (.json)',
+    description: 'Full card data for scripts and backups',
+    extension: 'json',
+    export: async deck => textBlob(exportJson(deck), 'application/json'),
+  },
+  {
+    id: 'obsidian',
+    label: 'Obsidian (.md)',
+    description: 'Spaced Repetition plugin note',
+    extension: 'md',
+    export: async deck => textBlob(exportObsidian(deck), 'text/markdown'),
+  },
+  {
+    id: 'quizlet',
+    label: 'Quizlet (.txt)',
+    description: 'Paste into Quizlet’s import box (tab between term and definition)',
+    extension: 'txt',
+    export: async deck => textBlob(exportQuizlet(deck), 'text/plain'),
+  },
+];
+
+export function getExporter(id: ExportFormat): Exporter {
+  return EXPORTERS.find(e => e.id === id) ?? EXPORTERS[0];
+}
+
+export async function exportDeck(deck: ExportableDeck, format: ExportFormat = 'apkg'): Promise<void> {
+  const exporter = getExporter(format);
+  console.log(`[Flashy] Exporting "${deck.deckName}" as ${exporter.id}...`);
+  const blob = await exporter.export(deck);
+  downloadFile(blob, `${safeFileName(deck.deckName)}.${exporter.extension}`);
+}
+
+/** Download several decks as one .apkg, each keeping its own ids and study progress */
+export async function exportDecksAsPackage(decks: ExportableDeck[]): Promise<void> {
+  console.log(`[Flashy] Exporting ${decks.length} decks as one package...`);
+  const media = await loadCardMedia(decks.flatMap(deck => deck.cards));
+  const blob = await generateMultiDeckPackage(decks.map(toPackageDeck), loadSelectedNoteType(), media);
+  const fileName = decks.length === 1 ? decks[0].deckName : `Flashy ${decks.length} decks`;
+  downloadFile(blob, `${safeFileName(fileName)}.apkg`);
+}
+
+function toPackageDeck(deck: ExportableDeck): AnkiPackageDeck {
+  return {
+    cards: deck.cards,
+    deckName: deck.deckName,
+    deckKey: deck.id,
+    reviews: deck.reviews,
+    reviewLog: deck.reviewLog,
+    deckOptions: deck.deckOptions,
+  };
+}
+
+export function downloadFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'Deck';
+}
+
+function textBlob(text: string, type: string): Blob {
+  return new Blob([text], { type: `${type};charset=utf-8` });
+}
+
+/** Quote a field if it contains the separator, quotes or line breaks (RFC 4180 style, as Anki's importer expects) */
+function quoteField(value: string, separator: string): string {
+  if (!value.includes(separator) && !/["\r\n]/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Anki's text import format with file headers, so no import options need to be set by hand.
+ * Fields are HTML (the same rendering as the .apkg) and carry the note guid, so re-importing updates notes;
+ * each row names its full deck path, so subdecks are created too.
+ */
+export function exportAnkiText(deck: ExportableDeck): string {
+  const deckKey = deck.id ?? crypto.randomUUID();
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype column:1',
+    '#guid column:2',
+    '#tags column:5',
+    '#deck column:6',
+  ];
+  for (const card of deck.cards) {
+    const row = [
+      card.type === 'cloze' ? 'Cloze' : 'Basic',
+      noteGuid(deckKey, card),
+      renderMarkdown(card.front),
+      renderMarkdown(card.back),
+      (card.tags ?? []).join(' '),
+      deckPathFor(deck.deckName, card),
+    ];
+    lines.push(row.map(f => quoteField(f, '\t')).join('\t'));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/** Front/back text for formats without cloze support: blanks on the front, the full sentence on the back */
+function plainSides(card: Flashcard): [string, string] {
+  if (card.type !== 'cloze') return [card.front, card.back];
+  const revealed = revealCloze(card.front);
+  return [maskCloze(card.front), card.back ? `${revealed}\n\n${card.back}` : revealed];
+}
+
+export function exportCsv(deck: ExportableDeck): string {
+  const rows = [['front', 'back', 'tags']];
+  for (const card of deck.cards) {
+    rows.push([...plainSides(card), (card.tags ?? []).join(' ')]);
+  }
+  return `${rows.map(row => row.map(f => quoteField(f, ',')).join(',')).join('\r\n')}\r\n`;
+}
+
+export function exportJson(deck: ExportableDeck): string {
+  return JSON.stringify({
+    deckName: deck.deckName,
+    exportedAt: new Date().toISOString(),
+    cards: deck.cards.map(card => ({
+      id: card.id,
+      type: card.type ?? 'basic',
+      front: card.front,
+      back: card.back,
+      tags: card.tags ?? [],
+      ...(card.subdeck && { subdeck: card.subdeck }),
+      ...(card.fields && { fields: card.fields }),
+    })),
+  }, null, 2);
+}
+
+/**
+ * A note for Obsidian's Spaced Repetition plugin: `front::back` for one-line cards, `?` between the
+ * sides otherwise, and cloze deletions as ==highlights==. The deck comes from the note's tag; the plugin
+ * ends a card at a blank line, so blank lines inside a field are collapsed.
+ */
+export function exportObsidian(deck: ExportableDeck): string {
+  const deckTag = `#flashcards/${deck.deckName.trim().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}/_-]/gu, '') || 'deck'}`;
+  const compact = (text: string) => text.trim().replace(/\n\s*\n/g, '\n');
+  const blocks = deck.cards.map(card => {
+    if (card.type === 'cloze') {
+      const text = replaceCloze(compact(card.front), ({ answer }) => `==${answer}==`);
+      return card.back ? `${text}\n${compact(card.back)}` : text;
+    }
+    const front = compact(card.front);
+    const back = compact(card.back);
+    if (!front.includes('\n') && !back.includes('\n')) return `${front}::${back}`;
+    return `${front}\n?\n${back}`;
+  });
+  return `# ${deck.deckName}\n\n${deckTag}\n\n${blocks.join('\n\n')}\n`;
+}
+
+/** Quizlet's import box: one card per line, a tab between term and definition, so line breaks become spaces */
+export function exportQuizlet(deck: ExportableDeck): string {
+  const flatten = (text: string) => text.replace(/\s*\n\s*/g, ' ').replace(/\t/g, ' ').trim();
+  return `${deck.cards.map(card => plainSides(card).map(flatten).join('\t')).join('\n')}\n`;
+}
@@ -0,0 +1,79 @@
+import type { ExtractedDocument } from './document';
+import type { ExtractionProgress } from './extractors';
+
+/**
+ * Runs document extraction in a dedicated Web Worker (extraction.worker.ts), so parsing a long PDF or
+ * running OCR never blocks the page. Each extraction gets its own worker, and cancelling terminates it,
+ * which also stops pdf.js and the OCR engine inside it.
+ */
+
+/** Main thread → worker */
+export type ExtractionRequest = { type: 'extract'; file: File };
+
+/** Worker → main thread */
+export type ExtractionResponse =
+  | { type: 'progress'; progress: ExtractionProgress }
+  | { type: 'done'; document: ExtractedDocument }
+  | { type: 'error'; message: string };
+
+export interface ExtractInWorkerOptions {
+  onProgress?: (progress: ExtractionProgress) => void;
+  signal?: AbortSignal;     // abort to stop; the promise rejects with an AbortError
+}
+
+export function extractInWorker(file: File, { onProgress, signal }: ExtractInWorkerOptions = {}): Promise<ExtractedDocument> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Extraction cancelled', 'AbortError'));
+      return;
+    }
+    const worker = new Worker(new URL('./extraction.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      console.log(`[Flashy] Extraction of ${file.name} cancelled`);
+      reject(new DOMException('Extraction cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        resolve(message.document);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      console.error('[Flashy] Extraction worker error:', event.message);
+      reject(new Error(`Failed to extract text from ${file.name}`));
+    };
+    worker.postMessage({ type: 'extract', file } satisfies ExtractionRequest);
+  });
+}
+
+const MAX_UPLOAD_KEY = 'flashy_max_upload_mb';
+export const DEFAULT_MAX_UPLOAD_MB = 100;
+
+/** Largest document the uploader accepts, in MB; extraction runs off the main thread, so big files are fine */
+export function loadMaxUploadMb(): number {
+  const stored = Number(localStorage.getItem(MAX_UPLOAD_KEY));
+  return stored > 0 ? stored : DEFAULT_MAX_UPLOAD_MB;
+}
+
+export function saveMaxUploadMb(mb: number): number {
+  if (!(mb > 0) || mb === DEFAULT_MAX_UPLOAD_MB) {
+    localStorage.removeItem(MAX_UPLOAD_KEY);
+    return DEFAULT_MAX_UPLOAD_MB;
+  }
+  localStorage.setItem(MAX_UPLOAD_KEY, String(mb));
+  return mb;
+}
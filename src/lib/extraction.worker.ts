@@ -0,0 +1,18 @@
+/// <reference lib="webworker" />
+import type { ExtractionRequest, ExtractionResponse } from './extraction';
+import { extractDocument } from './extractors';
+
+// One extraction per worker; the main thread terminates it when done or cancelled
+const post = (message: ExtractionResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+  const { file } = event.data;
+  try {
+    const extracted = await extractDocument(file, {
+      onProgress: progress => post({ type: 'progress', progress }),
+    });
+    post({ type: 'done', document: extracted });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : `Failed to extract text from ${file.name}` });
+  }
+};
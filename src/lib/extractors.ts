@@ -1,43 +1,608 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { createDocument, createTextDocument, splitByHeadings } from './document';
+import type { DocumentImage, DocumentSection, ExtractedDocument } from './document';
+import { createOcrWorker } from './ocr';
 // @ts-ignore
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs?url';
 
 // Initialize PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
 
-export async function extractText(file: File): Promise<string> {
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const PPT_MIME = 'application/vnd.ms-powerpoint';
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const DOC_MIME = 'application/msword';
+
+// Pictures kept from a document for adding to cards; smaller ones are icons, bullets and rules
+const MAX_DOCUMENT_IMAGES = 100;
+const MIN_IMAGE_SIZE = 48;
+
+// A PDF page with fewer visible characters than this is treated as a scan and read with OCR
+const MIN_PAGE_TEXT = 20;
+const OCR_DPI = 300;
+
+// Photos and scans of notes, read by a vision model; the long edge is scaled down to this many pixels,
+// about what vision models work at, so a phone photo isn't uploaded at full resolution
+const PHOTO_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MAX_PHOTO_EDGE = 1568;
+
+const IMAGE_MIME: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+};
+
+/** A problem with the file itself, whose message is shown to the user as is */
+class ExtractionError extends Error {}
+
+/** Progress of a long extraction: pages (or slides) read, then scanned pages run through OCR */
+export interface ExtractionProgress {
+    stage: 'pages' | 'ocr';
+    done: number;
+    total: number;
+}
+
+export interface ExtractOptions {
+    onProgress?: (progress: ExtractionProgress) => void;
+}
+
+export async function extractDocument(file: File, options: ExtractOptions = {}): Promise<ExtractedDocument> {
     const fileType = file.type;
+    const name = file.name.toLowerCase();
+
+    // Legacy binary PowerPoint is not a zip archive, so there is nothing we can unpack
+    if (fileType === PPT_MIME || name.endsWith('.ppt')) {
+        throw new Error('Legacy PowerPoint (.ppt) files are not supported. Please re-save the presentation as .pptx and upload it again.');
+    }
+    if (fileType === DOC_MIME || name.endsWith('.doc')) {
+        throw new Error('Legacy Word (.doc) files are not supported. Please re-save the document as .docx and upload it again.');
+    }
 
     try {
         if (fileType === 'application/pdf') {
-            return await extractPDF(file);
+            return await extractPDF(file, options);
+        } else if (fileType === PPTX_MIME || name.endsWith('.pptx')) {
+            return await extractPPTX(file, options);
+        } else if (fileType === DOCX_MIME || name.endsWith('.docx')) {
+            return await extractDOCX(file);
+        } else if (PHOTO_TYPES.includes(fileType) || /\.(png|jpe?g|webp)$/.test(name)) {
+            return await extractImage(file);
         } else if (fileType === 'text/markdown' || file.name.endsWith('.md') || file.name.endsWith('.markdown')) {
-            return await extractMarkdown(file);
+            return createTextDocument(await extractMarkdown(file), file.name, 'markdown');
         } else if (fileType === 'text/plain' || file.name.endsWith('.txt')) {
-            return await extractTextFile(file);
+            return createTextDocument(await extractTextFile(file), file.name, 'text');
         } else {
-            throw new Error(`Unsupported file type: ${fileType}`);
+            throw new ExtractionError(`Unsupported file type: ${fileType}`);
         }
     } catch (error) {
         console.error('Error extracting text:', error);
-        throw new Error('Failed to extract text from file');
+        // Library errors (a corrupt PDF, a broken zip) mean little to the user, so only those get the generic message
+        if (error instanceof ExtractionError) throw error;
+        throw new Error(`Failed to extract text from ${file.name}`, { cause: error });
     }
 }
 
-async function extractPDF(file: File): Promise<string> {
+async function extractPDF(file: File, options: ExtractOptions): Promise<ExtractedDocument> {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pdf = await pdfjsLib.getDocument({
+        data: arrayBuffer,
+        // Extraction runs in a Web Worker, where there's no `document` for pdf.js's scratch canvases and fonts
+        CanvasFactory: typeof document === 'undefined' ? OffscreenCanvasFactory : undefined,
+        disableFontFace: typeof document === 'undefined',
+    }).promise;
 
-    let fullText = '';
+    const sections: DocumentSection[] = [];
+    const images: DocumentImage[] = [];
 
     for (let i = 1; i <= pdf.numPages; i++) {
         const page = await pdf.getPage(i);
         const textContent = await page.getTextContent();
         const pageText = textContent.items.map((item: any) => item.str).join(' ');
-        fullText += `\n\n--- Page ${i} ---\n${pageText}`;
+        sections.push({ title: `Page ${i}`, level: 0, pageStart: i, pageEnd: i, text: pageText.trim() });
+        await collectPdfImages(page, i, images);
+        options.onProgress?.({ stage: 'pages', done: i, total: pdf.numPages });
+    }
+
+    // Scanned pages have no text layer (or just a page number); read them with OCR instead
+    const scanned = sections.filter(s => s.text.replace(/\s/g, '').length < MIN_PAGE_TEXT);
+    const ocrPages = scanned.length ? await ocrPdfPages(pdf, scanned, options) : [];
+
+    const info = await pdf.getMetadata().then(m => m.info as { Title?: string }).catch(() => undefined);
+
+    const extracted = createDocument(file.name, 'pdf', sections, {
+        title: info?.Title || undefined,
+        pageCount: pdf.numPages,
+        pageLabel: 'Page',
+        ocrPages: ocrPages.length ? ocrPages : undefined,
+    });
+    return { ...extracted, images };
+}
+
+/**
+ * Render each scanned page and replace its text with what OCR reads, returning the pages that got text.
+ * A page OCR can't read keeps its (empty) text layer rather than failing the whole document.
+ */
+async function ocrPdfPages(pdf: pdfjsLib.PDFDocumentProxy, pages: DocumentSection[], options: ExtractOptions): Promise<number[]> {
+    if (typeof OffscreenCanvas === 'undefined') return [];
+    console.log(`[Flashy] ${pages.length} page(s) have no text layer, running OCR...`);
+    options.onProgress?.({ stage: 'ocr', done: 0, total: pages.length });
+
+    const worker = await createOcrWorker();
+    const recognized: number[] = [];
+    try {
+        for (const [i, section] of pages.entries()) {
+            const pageNumber = section.pageStart!;
+            try {
+                const page = await pdf.getPage(pageNumber);
+                // Tesseract reads best at around 300 DPI; PDF units are 72 per inch
+                const viewport = page.getViewport({ scale: OCR_DPI / 72 });
+                const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+                const context = canvas.getContext('2d')!;
+                await page.render({ canvas: null, canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+                const { data } = await worker.recognize(await canvas.convertToBlob({ type: 'image/png' }));
+                const text = data.text.trim();
+                if (text) {
+                    section.text = text;
+                    recognized.push(pageNumber);
+                }
+            } catch (err) {
+                console.warn(`[Flashy] OCR failed on page ${pageNumber}:`, err);
+            }
+            options.onProgress?.({ stage: 'ocr', done: i + 1, total: pages.length });
+        }
+    } finally {
+        await worker.terminate();
+    }
+    console.log(`[Flashy] OCR read text on ${recognized.length} of ${pages.length} page(s)`);
+    return recognized;
+}
+
+interface CanvasAndContext {
+    canvas: OffscreenCanvas | null;
+    context: OffscreenCanvasRenderingContext2D | null;
+}
+
+/** Scratch canvases for pdf.js (masks, patterns) when rendering without a DOM */
+class OffscreenCanvasFactory {
+    create(width: number, height: number): CanvasAndContext {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+    }
+
+    reset(target: CanvasAndContext, width: number, height: number) {
+        target.canvas!.width = width;
+        target.canvas!.height = height;
+    }
+
+    destroy(target: CanvasAndContext) {
+        if (target.canvas) {
+            target.canvas.width = 0;
+            target.canvas.height = 0;
+        }
+        target.canvas = null;
+        target.context = null;
+    }
+}
+
+/** A decoded image from PDF.js: an ImageBitmap where the browser supports it, raw pixels otherwise */
+interface PdfImage {
+    width: number;
+    height: number;
+    kind?: number;
+    data?: Uint8Array | Uint8ClampedArray;
+    bitmap?: ImageBitmap;
+}
+
+/** Add the pictures drawn on a page as PNGs; one that can't be decoded is skipped, not fatal */
+async function collectPdfImages(page: pdfjsLib.PDFPageProxy, pageNumber: number, images: DocumentImage[]) {
+    if (images.length >= MAX_DOCUMENT_IMAGES || typeof OffscreenCanvas === 'undefined') return;
+
+    const operators = await page.getOperatorList();
+    const ids = new Set<string>();
+    operators.fnArray.forEach((fn, i) => {
+        if (fn === pdfjsLib.OPS.paintImageXObject) ids.add(operators.argsArray[i][0]);
+    });
+
+    let count = 0;
+    for (const id of ids) {
+        if (images.length >= MAX_DOCUMENT_IMAGES) break;
+        // Images used on several pages are kept with the document, the rest with the page
+        const objects = id.startsWith('g_') ? page.commonObjs : page.objs;
+        if (!objects.has(id)) continue;
+        try {
+            const blob = await pdfImageToPng(objects.get(id) as PdfImage);
+            if (blob) images.push({ label: `Page ${pageNumber}, image ${++count}`, blob, pageStart: pageNumber });
+        } catch (err) {
+            console.warn(`[Flashy] Skipped an image on page ${pageNumber}:`, err);
+        }
+    }
+}
+
+async function pdfImageToPng(image: PdfImage): Promise<Blob | null> {
+    const { width, height } = image;
+    if (width < MIN_IMAGE_SIZE || height < MIN_IMAGE_SIZE) return null;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    if (image.bitmap) {
+        context.drawImage(image.bitmap, 0, 0);
+    } else if (image.data) {
+        const pixels = toRgba(image.data, width, height, image.kind);
+        if (!pixels) return null;
+        context.putImageData(new ImageData(pixels, width, height), 0, 0);
+    } else {
+        return null;
+    }
+    return canvas.convertToBlob({ type: 'image/png' });
+}
+
+/** Expand PDF.js pixel data (1-bit grayscale, RGB or RGBA rows) to RGBA */
+function toRgba(data: Uint8Array | Uint8ClampedArray, width: number, height: number, kind?: number): Uint8ClampedArray<ArrayBuffer> | null {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    if (kind === pdfjsLib.ImageKind.RGBA_32BPP) {
+        pixels.set(data.subarray(0, pixels.length));
+    } else if (kind === pdfjsLib.ImageKind.RGB_24BPP) {
+        for (let src = 0, dest = 0; dest < pixels.length; src += 3, dest += 4) {
+            pixels[dest] = data[src];
+            pixels[dest + 1] = data[src + 1];
+            pixels[dest + 2] = data[src + 2];
+            pixels[dest + 3] = 255;
+        }
+    } else if (kind === pdfjsLib.ImageKind.GRAYSCALE_1BPP) {
+        // Rows are padded to whole bytes; a set bit is white
+        const rowBytes = Math.ceil(width / 8);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const value = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7)) ? 255 : 0;
+                const dest = (y * width + x) * 4;
+                pixels.fill(value, dest, dest + 3);
+                pixels[dest + 3] = 255;
+            }
+        }
+    } else {
+        return null;
+    }
+    return pixels;
+}
+
+/**
+ * An image has no text to extract: it becomes a document holding the picture, downscaled, which is
+ * sent to a vision model as is. The rotation a phone records in EXIF is applied while redrawing.
+ */
+async function extractImage(file: File): Promise<ExtractedDocument> {
+    const bitmap = await createImageBitmap(file);
+    let blob: Blob;
+    try {
+        const scale = Math.min(1, MAX_PHOTO_EDGE / Math.max(bitmap.width, bitmap.height));
+        const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        // Screenshots stay lossless; photos are re-encoded as JPEG
+        blob = await canvas.convertToBlob(
+            file.type === 'image/png' ? { type: 'image/png' } : { type: 'image/jpeg', quality: 0.85 },
+        );
+    } finally {
+        bitmap.close();
+    }
+
+    const extracted = createDocument(file.name, 'image', [{ title: file.name, level: 0, text: '' }]);
+    return { ...extracted, images: [{ label: file.name, blob }] };
+}
+
+/**
+ * Extract slide text from a .pptx archive.
+ * Slides are read in presentation order (not file-name order), and each one
+ * becomes a section with its title, body text and speaker notes.
+ */
+async function extractPPTX(file: File, options: ExtractOptions): Promise<ExtractedDocument> {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const slidePaths = await getSlideOrder(zip);
+    if (slidePaths.length === 0) {
+        throw new ExtractionError('No slides found in presentation');
     }
 
-    return fullText;
+    const sections: DocumentSection[] = [];
+    const images: DocumentImage[] = [];
+    const seenImages = new Set<string>();
+
+    for (let i = 0; i < slidePaths.length; i++) {
+        const slideXml = await zip.file(slidePaths[i])?.async('string');
+        if (!slideXml) continue;
+
+        const { title, body } = readSlideShapes(slideXml);
+        const rels = await readPartRelationships(zip, slidePaths[i]);
+        const notesPath = [...rels.values()].find(rel => rel.type.endsWith('/notesSlide'))?.target;
+        const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+        const notes = notesXml ? readSlideShapes(notesXml).body : [];
+
+        let slideText = body.join('\n');
+        if (notes.length) slideText += `\n\nSpeaker notes:\n${notes.join('\n')}`;
+        sections.push({
+            title: title || `Slide ${i + 1}`,
+            level: title ? 1 : 0,
+            pageStart: i + 1,
+            pageEnd: i + 1,
+            text: slideText.trim(),
+        });
+
+        // Pictures on the slide itself; the layout's and master's are decoration
+        let count = 0;
+        for (const rel of rels.values()) {
+            if (!rel.type.endsWith('/image') || seenImages.has(rel.target) || images.length >= MAX_DOCUMENT_IMAGES) continue;
+            const type = IMAGE_MIME[rel.target.split('.').pop()!.toLowerCase()];
+            const data = type ? await zip.file(rel.target)?.async('arraybuffer') : undefined;
+            if (!data) continue;
+            seenImages.add(rel.target);
+            images.push({ label: `Slide ${i + 1}, image ${++count}`, blob: new Blob([data], { type }), pageStart: i + 1 });
+        }
+        options.onProgress?.({ stage: 'pages', done: i + 1, total: slidePaths.length });
+    }
+
+    const extracted = createDocument(file.name, 'pptx', sections, {
+        title: sections[0]?.level ? sections[0].title : undefined,
+        pageCount: sections.length,
+        pageLabel: 'Slide',
+    });
+    return { ...extracted, images };
+}
+
+/** Resolve slide part paths in the order listed by ppt/presentation.xml */
+async function getSlideOrder(zip: JSZip): Promise<string[]> {
+    const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+    const rels = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+
+    if (presentation && rels) {
+        const targets = readRelationships(rels, 'ppt/');
+        const ordered = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g)]
+            .map(m => targets.get(m[1])?.target)
+            .filter((p): p is string => !!p && !!zip.file(p));
+        if (ordered.length) return ordered;
+    }
+
+    // Fall back to numeric file order if the presentation part is missing or unusual
+    return Object.keys(zip.files)
+        .filter(p => /^ppt\/slides\/slide\d+\.xml$/.test(p))
+        .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+/** Relationships of one part (a slide's notes, images, ...), empty if it has none */
+async function readPartRelationships(zip: JSZip, partPath: string): Promise<Map<string, { type: string; target: string }>> {
+    const dir = partPath.slice(0, partPath.lastIndexOf('/') + 1);
+    const fileName = partPath.slice(dir.length);
+    const rels = await zip.file(`${dir}_rels/${fileName}.rels`)?.async('string');
+    return rels ? readRelationships(rels, dir) : new Map();
+}
+
+function readRelationships(xml: string, baseDir: string): Map<string, { type: string; target: string }> {
+    const rels = new Map<string, { type: string; target: string }>();
+    for (const m of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+        const id = readAttr(m[0], 'Id');
+        const target = readAttr(m[0], 'Target');
+        if (!id || !target) continue;
+        rels.set(id, { type: readAttr(m[0], 'Type') ?? '', target: resolvePartPath(baseDir, target) });
+    }
+    return rels;
+}
+
+/** Split a slide (or notes slide) into its title placeholder and the remaining text paragraphs */
+function readSlideShapes(xml: string): { title: string; body: string[] } {
+    let title = '';
+    const body: string[] = [];
+
+    for (const shape of xml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? []) {
+        const placeholder = /<p:ph\b[^>]*>/.exec(shape)?.[0];
+        const phType = placeholder ? readAttr(placeholder, 'type') : undefined;
+        // Slide numbers, dates, footers and the notes-page slide thumbnail are not content
+        if (phType && ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'].includes(phType)) continue;
+
+        const paragraphs = readParagraphs(shape);
+        if (!paragraphs.length) continue;
+
+        if (!title && (phType === 'title' || phType === 'ctrTitle')) {
+            title = paragraphs.join(' ');
+        } else {
+            body.push(...paragraphs);
+        }
+    }
+
+    // Tables live in graphic frames rather than shapes
+    for (const table of xml.match(/<a:tbl>[\s\S]*?<\/a:tbl>/g) ?? []) {
+        for (const row of table.match(/<a:tr\b[\s\S]*?<\/a:tr>/g) ?? []) {
+            const cells = (row.match(/<a:tc\b[\s\S]*?<\/a:tc>/g) ?? []).map(c => readParagraphs(c).join(' '));
+            if (cells.some(Boolean)) body.push(`| ${cells.join(' | ')} |`);
+        }
+    }
+
+    return { title, body };
+}
+
+function readParagraphs(xml: string): string[] {
+    const paragraphs: string[] = [];
+    for (const p of xml.match(/<a:p>[\s\S]*?<\/a:p>|<a:p\s[\s\S]*?<\/a:p>/g) ?? []) {
+        const text = [...p.matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>|<a:br\b[^>]*\/>/g)]
+            .map(m => (m[1] !== undefined ? decodeXml(m[1]) : '\n'))
+            .join('')
+            .trim();
+        if (!text) continue;
+        // Indented paragraphs (lvl >= 1) are nested bullets
+        const level = Number(/<a:pPr\b[^>]*\blvl="(\d+)"/.exec(p)?.[1] ?? 0);
+        paragraphs.push(level > 0 ? `${'  '.repeat(level - 1)}- ${text}` : text);
+    }
+    return paragraphs;
+}
+
+function readAttr(tag: string, name: string): string | undefined {
+    return new RegExp(`\\b${name}="([^"]*)"`).exec(tag)?.[1];
+}
+
+function resolvePartPath(baseDir: string, target: string): string {
+    if (target.startsWith('/')) return target.slice(1);
+    const parts = baseDir.split('/').filter(Boolean);
+    for (const segment of target.split('/')) {
+        if (segment === '..') parts.pop();
+        else if (segment !== '.') parts.push(segment);
+    }
+    return parts.join('/');
+}
+
+function slideNumber(path: string): number {
+    return Number(/(\d+)\.xml$/.exec(path)?.[1] ?? 0);
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert a .docx to Markdown-flavoured text with mammoth.
+ * Headings, lists and tables are kept so the AI sees the document structure.
+ */
+async function extractDOCX(file: File): Promise<ExtractedDocument> {
+    const images: DocumentImage[] = [];
+    const result = await mammoth.convertToHtml(
+        { arrayBuffer: await file.arrayBuffer() },
+        // Images can't go into the prompt, so they're kept aside for cards rather than base64-encoded into the HTML
+        {
+            convertImage: mammoth.images.imgElement(async image => {
+                if (Object.values(IMAGE_MIME).includes(image.contentType) && images.length < MAX_DOCUMENT_IMAGES) {
+                    const blob = new Blob([await image.readAsArrayBuffer()], { type: image.contentType });
+                    images.push({ label: `Image ${images.length + 1}`, blob });
+                }
+                return { src: '' };
+            }),
+        },
+    );
+    for (const message of result.messages) {
+        console.warn('[Flashy] DOCX conversion:', message.message);
+    }
+    const sections = splitByHeadings(htmlToStructuredText(result.value));
+    const extracted = createDocument(file.name, 'docx', sections, {
+        title: sections.find(s => s.level === 1)?.title,
+    });
+    return { ...extracted, images };
+}
+
+/**
+ * Flatten mammoth's HTML output (headings, paragraphs, nested lists, tables, inline emphasis)
+ * into Markdown. Written as a tokenizer rather than using DOMParser so it has no DOM dependency.
+ */
+function htmlToStructuredText(html: string): string {
+    const lines: string[] = [];
+    const lists: { ordered: boolean; counter: number }[] = [];
+    let line = '';
+    let table: string[][] | null = null;
+    let row: string[] | null = null;
+    let cell: string | null = null;
+
+    const append = (text: string) => {
+        if (cell !== null) cell += text;
+        else line += text;
+    };
+    const flush = () => {
+        if (line.trim()) lines.push(line.trimEnd());
+        line = '';
+    };
+
+    for (const m of html.matchAll(/<(\/?)([a-z0-9]+)[^>]*?(\/?)>|([^<]+)/gi)) {
+        if (m[4] !== undefined) {
+            append(decodeXml(m[4]));
+            continue;
+        }
+        const closing = m[1] === '/';
+        const tag = m[2].toLowerCase();
+
+        if (cell !== null && !['td', 'th', 'tr', 'table'].includes(tag)) {
+            // Inside a table cell everything collapses onto one line
+            if (tag === 'p' || tag === 'br' || tag === 'li') cell += ' ';
+            else if (tag === 'strong' || tag === 'b') cell += '**';
+            continue;
+        }
+
+        switch (tag) {
+            case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+                flush();
+                if (!closing) {
+                    lines.push('');
+                    line = `${'#'.repeat(Number(tag[1]))} `;
+                }
+                break;
+            case 'p':
+                if (lists.length === 0) flush();
+                else if (!closing && line.trim() && !line.trimEnd().endsWith(':')) line += ' ';
+                break;
+            case 'br':
+                append('\n');
+                break;
+            case 'ul': case 'ol':
+                flush();
+                if (closing) lists.pop();
+                else lists.push({ ordered: tag === 'ol', counter: 0 });
+                break;
+            case 'li': {
+                flush();
+                const list = lists[lists.length - 1];
+                if (!closing && list) {
+                    list.counter++;
+                    line = `${'  '.repeat(lists.length - 1)}${list.ordered ? `${list.counter}.` : '-'} `;
+                }
+                break;
+            }
+            case 'strong': case 'b':
+                append('**');
+                break;
+            case 'em': case 'i':
+                append('_');
+                break;
+            case 'table':
+                flush();
+                if (!closing) {
+                    table = [];
+                } else if (table) {
+                    lines.push('', ...formatTable(table), '');
+                    table = null;
+                }
+                break;
+            case 'tr':
+                if (!closing) row = [];
+                else if (row && table) {
+                    table.push(row);
+                    row = null;
+                }
+                break;
+            case 'td': case 'th':
+                if (!closing) cell = '';
+                else if (cell !== null) {
+                    row?.push(cell.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim());
+                    cell = null;
+                }
+                break;
+        }
+    }
+    flush();
+
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function formatTable(rows: string[][]): string[] {
+    if (rows.length === 0) return [];
+    const width = Math.max(...rows.map(r => r.length));
+    const pad = (r: string[]) => [...r, ...Array(width - r.length).fill('')];
+    const out = rows.map(r => `| ${pad(r).join(' | ')} |`);
+    // Treat the first row as the header so it renders as a Markdown table
+    out.splice(1, 0, `|${' --- |'.repeat(width)}`);
+    return out;
 }
 
 function extractMarkdown(file: File): Promise<string> {
@@ -0,0 +1,210 @@
+import JSZip from 'jszip';
+import type { Flashcard } from './ai';
+import { getSql } from './anki';
+import { htmlToMarkdown } from './markdown';
+import { DEFAULT_DECK_OPTIONS } from './deckoptions';
+import type { ReviewState } from './srs';
+import { validateCard } from './validation';
+
+export interface ImportedDeck {
+  deckName: string;
+  cards: Flashcard[];
+  reviews: Record<string, ReviewState>;   // scheduling of cards Anki had already studied, keyed by card id
+}
+
+export interface AnkiImportResult {
+  decks: ImportedDeck[];
+  noteCount: number;      // notes in the package, imported or not
+  warnings: string[];     // what was skipped or simplified, one line each
+}
+
+interface AnkiModel {
+  name: string;
+  type: number;           // 0 = standard, 1 = cloze
+  flds: { name: string }[];
+  tmpls: unknown[];
+}
+
+interface AnkiDeck {
+  name: string;
+}
+
+/** The columns of a note's first card, enough to carry its scheduling over */
+interface CardRow {
+  did: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  left: number;
+}
+
+type SqlValue = number | string | Uint8Array | null;
+
+/** The part of sql.js's Database used here */
+interface SqlDatabase {
+  exec(sql: string): { columns: string[]; values: SqlValue[][] }[];
+  close(): void;
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const MEDIA_PATTERN = /<img[^>]*>|\[sound:[^\]]*\]/i;
+
+export function isAnkiPackage(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.apkg');
+}
+
+const countNotes = (n: number) => `${n} note${n === 1 ? '' : 's'}`;
+
+/**
+ * Read an .apkg into Flashy decks: one per top-level Anki deck that has notes, each note becoming a card
+ * (notes in subdecks keep their path as the card's subdeck).
+ * Basic-style notes (two fields) and Cloze notes are mapped; fields are converted from HTML to Markdown
+ * and the note guid is kept, so exporting the deck again updates the same notes in Anki.
+ * Everything that can't be carried over is listed in `warnings`.
+ */
+export async function readAnkiPackage(file: Blob): Promise<AnkiImportResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error('This file is not a valid Anki package (.apkg)');
+  }
+
+  // Packages from Anki 2.1.50+ keep a compressed collection next to a placeholder collection.anki2
+  if (zip.file('collection.anki21b') && !zip.file('collection.anki21')) {
+    throw new Error('This package uses the newest Anki format. Export it again from Anki with "Support older Anki versions" ticked.');
+  }
+  const entry = zip.file('collection.anki21') ?? zip.file('collection.anki2');
+  if (!entry) throw new Error('This .apkg has no Anki collection inside');
+
+  console.log(`[Flashy] Importing Anki package (${entry.name})...`);
+  const SQL = await getSql();
+  const db: SqlDatabase = new SQL.Database(await entry.async('uint8array'));
+  try {
+    return readCollection(db);
+  } finally {
+    db.close();
+  }
+}
+
+function queryRows<Row extends SqlValue[]>(db: SqlDatabase, sql: string): Row[] {
+  return (db.exec(sql)[0]?.values ?? []) as Row[];
+}
+
+function readCollection(db: SqlDatabase): AnkiImportResult {
+  // A truncated or damaged collection can have an empty `col` table
+  const [collection] = queryRows<[number, string, string]>(db, 'SELECT crt, models, decks FROM col');
+  if (!collection) throw new Error('This file is not a valid Anki package (.apkg): its collection is empty or damaged');
+  const [crt, modelsJson, decksJson] = collection;
+  const models = JSON.parse(modelsJson || '{}') as Record<string, AnkiModel>;
+  const ankiDecks = JSON.parse(decksJson || '{}') as Record<string, AnkiDeck>;
+  if (!Object.keys(models).length) {
+    throw new Error('Could not read the note types in this package. Export it again from Anki with "Support older Anki versions" ticked.');
+  }
+
+  // A note's deck is its first card's; cards in a filtered deck belong to their original deck (odid)
+  const firstCards = new Map<number, CardRow>();
+  for (const [nid, did, odid, type, queue, due, ivl, factor, reps, lapses, left] of queryRows<number[]>(
+    db,
+    'SELECT nid, did, odid, type, queue, due, ivl, factor, reps, lapses, left FROM cards ORDER BY nid, ord',
+  )) {
+    if (!firstCards.has(nid)) firstCards.set(nid, { did: odid || did, type, queue, due, ivl, factor, reps, lapses, left });
+  }
+
+  const decks = new Map<string, ImportedDeck>();
+  const unsupportedModels = new Map<string, number>();
+  const oneWayModels = new Map<string, number>();
+  let mediaNotes = 0;
+  let droppedFieldNotes = 0;
+  let invalidNotes = 0;
+
+  const notes = queryRows<[number, string, number, string, string]>(db, 'SELECT id, guid, mid, tags, flds FROM notes ORDER BY id');
+  notes.forEach(([nid, guid, mid, tags, flds], idx) => {
+    const model = models[String(mid)];
+    const fields = flds.split(FIELD_SEPARATOR);
+    const isCloze = model?.type === 1;
+    if (!model || (!isCloze && model.flds.length !== 2)) {
+      const name = model?.name ?? 'Unknown note type';
+      unsupportedModels.set(name, (unsupportedModels.get(name) ?? 0) + 1);
+      return;
+    }
+    if (isCloze && fields.slice(2).some(f => f.trim())) droppedFieldNotes++;
+    if (!isCloze && model.tmpls.length > 1) oneWayModels.set(model.name, (oneWayModels.get(model.name) ?? 0) + 1);
+    if (MEDIA_PATTERN.test(flds)) mediaNotes++;
+
+    const { card } = validateCard({
+      front: htmlToMarkdown(fields[0] ?? ''),
+      back: htmlToMarkdown(fields[1] ?? ''),
+      type: isCloze ? 'cloze' : 'basic',
+      tags: tags.trim().split(/\s+/).filter(Boolean),
+    }, idx);
+    if (!card) {
+      invalidNotes++;
+      return;
+    }
+    card.guid = guid;
+
+    // Anki subdecks stay together: `Course::Week 1` becomes subdeck "Week 1" of the deck "Course"
+    const ankiCard = firstCards.get(nid);
+    const [deckName, ...subdeck] = (ankiDecks[String(ankiCard?.did ?? 1)]?.name ?? 'Imported Deck').split('::');
+    if (subdeck.length) card.subdeck = subdeck.join('::');
+    let deck = decks.get(deckName);
+    if (!deck) {
+      deck = { deckName, cards: [], reviews: {} };
+      decks.set(deckName, deck);
+    }
+    deck.cards.push(card);
+    const state = ankiCard && reviewStateFor(ankiCard, crt);
+    if (state) deck.reviews[card.id!] = state;
+  });
+
+  const warnings: string[] = [];
+  for (const [name, count] of unsupportedModels) {
+    warnings.push(`Skipped ${countNotes(count)} of type "${name}": only Basic (two-field) and Cloze note types can be imported.`);
+  }
+  for (const [name, count] of oneWayModels) {
+    warnings.push(`${countNotes(count)} of type "${name}" became one-way cards; their other card templates aren't kept.`);
+  }
+  if (invalidNotes) warnings.push(`Skipped ${countNotes(invalidNotes)} with an empty front or back, or broken cloze deletions.`);
+  if (droppedFieldNotes) warnings.push(`${countNotes(droppedFieldNotes)} had fields beyond Text and Extra, which were left out.`);
+  if (mediaNotes) warnings.push(`${countNotes(mediaNotes)} referenced images or sounds, which were removed.`);
+  const revlogCount = queryRows<[number]>(db, 'SELECT count(*) FROM revlog')[0]?.[0] ?? 0;
+  if (revlogCount) warnings.push('Review history isn’t imported; each card keeps its current schedule.');
+
+  return {
+    decks: [...decks.values()].sort((a, b) => a.deckName.localeCompare(b.deckName)),
+    noteCount: notes.length,
+    warnings,
+  };
+}
+
+/**
+ * The inverse of the exporter's scheduling columns: review cards are due on a day counted from the
+ * collection's `crt`, learning cards at a Unix time in seconds (or a day number once a step spans days).
+ */
+function reviewStateFor(card: CardRow, crt: number): ReviewState | undefined {
+  if (card.type === 0) return undefined;
+  const ease = card.factor ? card.factor / 1000 : 2.5;
+  const dayToMs = (day: number) => (crt + day * 86400) * 1000;
+  if (card.type === 2) {
+    return { phase: 'review', due: dayToMs(card.due), interval: card.ivl, ease, step: 0, reps: card.reps, lapses: card.lapses };
+  }
+  const phase = card.type === 3 ? 'relearning' : 'learning';
+  // Imported decks study with the default options; `left % 1000` is the number of steps still to go and
+  // the deck's steps in Anki may differ, so clamp
+  const steps = phase === 'relearning' ? DEFAULT_DECK_OPTIONS.relearningSteps : DEFAULT_DECK_OPTIONS.learningSteps;
+  const step = Math.min(Math.max(steps.length - (card.left % 1000), 0), steps.length - 1);
+  return {
+    phase,
+    due: card.queue === 3 ? dayToMs(card.due) : card.due * 1000,
+    interval: card.ivl,
+    ease,
+    step,
+    reps: card.reps,
+    lapses: card.lapses,
+  };
+}
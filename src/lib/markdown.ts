@@ -0,0 +1,188 @@
+import { Marked, type TokenizerAndRendererExtension } from 'marked';
+import { parseCloze } from './cloze';
+
+/**
+ * Card fields are written in Markdown with TeX math. They are rendered to HTML once, here,
+ * for both the in-app previews and the Anki export, so what you see is what Anki shows.
+ *
+ * The output is sanitized without a DOM (so it also runs off the main thread): raw HTML in the
+ * source is escaped rather than passed through, and links/images only keep safe URLs.
+ * Math becomes `\( \)` / `\[ \]` spans, the delimiters Anki's MathJax understands.
+ */
+
+interface MathToken {
+  type: 'math';
+  raw: string;
+  text: string;
+  display: boolean;
+}
+
+const INLINE_MATH = [
+  { pattern: /^\$\$([\s\S]+?)\$\$/, display: true },
+  { pattern: /^\\\[([\s\S]+?)\\\]/, display: true },
+  { pattern: /^\\\(([\s\S]+?)\\\)/, display: false },
+  // $x$, but not prices like "$5 and $10": no space just inside the delimiters, no digit right after
+  { pattern: /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/, display: false },
+];
+
+const math: TokenizerAndRendererExtension = {
+  name: 'math',
+  level: 'inline',
+  start(src) {
+    return src.match(/\$|\\[[(]/)?.index;
+  },
+  tokenizer(src): MathToken | undefined {
+    for (const { pattern, display } of INLINE_MATH) {
+      const match = pattern.exec(src);
+      if (match) return { type: 'math', raw: match[0], text: match[1].trim(), display };
+    }
+    return undefined;
+  },
+  renderer(token) {
+    const { text, display } = token as unknown as MathToken;
+    return display
+      ? `<span class="math math-display">\\[${escapeHtml(text)}\\]</span>`
+      : `<span class="math">\\(${escapeHtml(text)}\\)</span>`;
+  },
+};
+
+const marked = new Marked({
+  gfm: true,
+  breaks: true,           // models separate lines with single newlines
+  extensions: [math],
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const body = this.parser.parseInline(tokens);
+      if (!isSafeUrl(href)) return body;
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${titleAttr} target="_blank" rel="noopener noreferrer">${body}</a>`;
+    },
+    image({ href, title, text }) {
+      if (!isSafeUrl(href)) return escapeHtml(text);
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr}>`;
+    },
+  },
+});
+
+/** http(s), mailto, inline raster images and relative paths (Anki media files) */
+function isSafeUrl(url: string): boolean {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return true;
+  if (/^data:image\/(png|gif|jpe?g|webp);/i.test(trimmed)) return true;
+  return !/^[a-z][a-z0-9+.-]*:/i.test(trimmed) && !trimmed.startsWith('//');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Render a card field to sanitized HTML. A single paragraph is unwrapped so short fields stay inline. */
+export function renderMarkdown(text: string): string {
+  if (!text.trim()) return '';
+  const html = (marked.parse(text, { async: false }) as string).trim();
+  const single = /^<p>([\s\S]*)<\/p>$/.exec(html);
+  return single && !single[1].includes('<p>') ? single[1] : html;
+}
+
+export function renderInlineMarkdown(text: string): string {
+  return marked.parseInline(text, { async: false }) as string;
+}
+
+// Private-use characters survive Markdown untouched, so they can stand in for deletions
+const PLACEHOLDER = (index: number) => `\uE000${index}\uE001`;
+
+/**
+ * Render cloze text for the in-app preview, showing deletions as Anki does:
+ * `[...]` (or `[hint]`) on the front and the highlighted answer on the back.
+ */
+export function renderClozeMarkdown(text: string, revealed: boolean): string {
+  const deletions: string[] = [];
+  const masked = parseCloze(text)
+    .map(segment => {
+      if (segment.kind === 'text') return segment.text;
+      const content = revealed
+        ? renderInlineMarkdown(segment.answer)
+        : `[${segment.hint ? renderInlineMarkdown(segment.hint) : '...'}]`;
+      deletions.push(
+        `<span title="c${segment.index}" class="font-semibold text-purple-400 bg-purple-500/10 rounded px-1">${content}</span>`,
+      );
+      return PLACEHOLDER(deletions.length - 1);
+    })
+    .join('');
+  return renderMarkdown(masked).replace(/\uE000(\d+)\uE001/g, (_, i) => deletions[Number(i)]);
+}
+
+/** Plain text of rendered HTML, for Anki's sort field and duplicate checksum */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]*>/g, ''),
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', times: '×', deg: '°',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Turn an Anki field back into Markdown for cards imported from an .apkg: line breaks, blocks,
+ * lists, emphasis, code and links are kept, other markup (fonts, colours, spans) is dropped.
+ * Images and sounds are removed; the importer reports them. MathJax `\( \)` passes through as is,
+ * and Anki's `[$]...[/$]` LaTeX becomes `$...$`.
+ */
+export function htmlToMarkdown(html: string): string {
+  // Code blocks are set aside first: everywhere else, raw line breaks are just whitespace
+  const codeBlocks: string[] = [];
+  const markdown = html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<img[^>]*>/gi, '')
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+      codeBlocks.push(`\`\`\`\n${decodeEntities(code.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '')).trim()}\n\`\`\``);
+      return `<div>${PLACEHOLDER(codeBlocks.length - 1)}</div>`;
+    })
+    .replace(/\s*\n\s*/g, ' ')
+    // Anki's editor writes each line as a <div>, so consecutive divs are line breaks, not paragraphs
+    .replace(/<\/div>\s*<div(\s[^>]*)?>/gi, '<br>')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/?(div|tr)(\s[^>]*)?>/gi, '\n')
+    .replace(/<\/?(p|ul|ol|h[1-6]|blockquote)(\s[^>]*)?>/gi, '\n\n')
+    .replace(/<\/?(b|strong)(\s[^>]*)?>/gi, '**')
+    .replace(/<\/?(i|em)(\s[^>]*)?>/gi, '*')
+    .replace(/<\/?code(\s[^>]*)?>/gi, '`')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) =>
+      text.trim() && isSafeUrl(href) ? `[${text}](${href})` : text)
+    .replace(/<[^>]*>/g, '')
+    .replace(/\[\$\$\]([\s\S]*?)\[\/\$\$\]/g, '$$$$$1$$$$')
+    .replace(/\[\$\]([\s\S]*?)\[\/\$\]/g, '$$$1$$');
+  return decodeEntities(markdown)
+    .replace(/\*\*\*\*/g, '')     // bold left empty by removed content, or two bold runs side by side
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .replace(/\uE000(\d+)\uE001/g, (_, i) => codeBlocks[Number(i)]);
+}
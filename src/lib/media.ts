@@ -0,0 +1,138 @@
+import type { Flashcard } from './ai';
+import { renderMarkdown } from './markdown';
+import { getMedia, saveMedia } from './storage';
+
+/**
+ * Images on cards. A card refers to an image with Markdown, `![label](flashy-1a2b3c.png)`, where the
+ * path is the image's Anki media file name: exports copy the stored file into the package (or Anki's
+ * media folder) under that name, so the rendered `<img>` works in Anki as is. In the app the same
+ * names are swapped for object URLs of the stored files.
+ */
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// <img src="name"> with a bare file name, the only kind that points into Anki's media folder
+const LOCAL_IMG = /<img\b[^>]*?\ssrc="([^"/:]+)"/g;
+
+// Images added in a card editor that's still open, so not on any saved card yet; counted per editor
+const draftImages = new Map<string, number>();
+
+/**
+ * Store an image for use on cards and return its media file name, derived from the content so the
+ * same picture is stored (and exported) once however many cards show it. Until the caller passes the
+ * name to `releaseDraftImages`, the image is a draft that pruning leaves alone.
+ */
+export async function storeImage(blob: Blob): Promise<string> {
+  const extension = EXTENSIONS[blob.type];
+  if (!extension) throw new Error('Only PNG, JPEG, GIF, WebP and SVG images can be added to cards');
+  if (blob.size > MAX_IMAGE_BYTES) throw new Error('Images must be 10MB or smaller');
+
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hash = [...new Uint8Array(digest).slice(0, 8)].map(b => b.toString(16).padStart(2, '0')).join('');
+  const name = `flashy-${hash}.${extension}`;
+  // Held before it's saved, so a prune running meanwhile can't catch it in between
+  draftImages.set(name, (draftImages.get(name) ?? 0) + 1);
+  try {
+    await saveMedia({ name, blob });
+  } catch (error) {
+    releaseDraftImages([name]);
+    throw error;
+  }
+  return name;
+}
+
+/** Let pruning delete these images again once no saved card shows them, e.g. when the editor closes */
+export function releaseDraftImages(names: string[]) {
+  for (const name of names) {
+    const count = (draftImages.get(name) ?? 0) - 1;
+    if (count > 0) draftImages.set(name, count);
+    else draftImages.delete(name);
+  }
+}
+
+/** Images stored by open editors that aren't on a saved card yet */
+export function draftImageNames(): string[] {
+  return [...draftImages.keys()];
+}
+
+/** Markdown that shows a stored image; the label becomes the alt text */
+export function imageMarkdown(name: string, label = ''): string {
+  return `![${label.replace(/[[\]\\]/g, '')}](${name})`;
+}
+
+/** Media file names referenced by rendered card HTML */
+export function mediaNamesIn(html: string): string[] {
+  return [...new Set([...html.matchAll(LOCAL_IMG)].map(m => m[1]))];
+}
+
+/** Every media file the cards show, in any field */
+export function mediaReferences(cards: Flashcard[]): string[] {
+  const names = new Set<string>();
+  for (const card of cards) {
+    for (const text of [card.front, card.back, ...Object.values(card.fields ?? {})]) {
+      for (const name of mediaNamesIn(renderMarkdown(text))) names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/** Load the stored files the cards show, warning about any that are missing */
+export async function loadCardMedia(cards: Flashcard[]): Promise<Map<string, Blob>> {
+  const names = mediaReferences(cards);
+  const media = await getMedia(names);
+  const missing = names.filter(name => !media.has(name));
+  if (missing.length) console.warn('[Flashy] Images missing from storage, left out of the export:', missing);
+  return media;
+}
+
+// Object URLs of stored images for the previews; null once a name was looked up and not found
+const mediaUrls = new Map<string, string | null>();
+
+export function hasMediaUrl(name: string): boolean {
+  return mediaUrls.has(name);
+}
+
+export async function loadMediaUrls(names: string[]): Promise<void> {
+  const media = await getMedia(names.filter(name => !mediaUrls.has(name)));
+  for (const name of names) {
+    if (!mediaUrls.has(name)) mediaUrls.set(name, media.has(name) ? URL.createObjectURL(media.get(name)!) : null);
+  }
+}
+
+/** Point `<img>` tags at the stored images, for showing rendered card HTML in the app */
+export function resolveMediaUrls(html: string): string {
+  return html.replace(LOCAL_IMG, (tag, name: string) => {
+    const url = mediaUrls.get(name);
+    return url ? tag.replace(`src="${name}"`, `src="${url}"`) : tag;
+  });
+}
+
+// Preview URLs for images that aren't stored yet, such as the pictures found in a document
+const blobUrls = new WeakMap<Blob, string>();
+
+export function blobUrl(blob: Blob): string {
+  let url = blobUrls.get(blob);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    blobUrls.set(blob, url);
+  }
+  return url;
+}
+
+/** Base64 of a file, as AnkiConnect's storeMediaFile expects */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
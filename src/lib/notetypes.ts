@@ -0,0 +1,286 @@
+import type { Flashcard } from './ai';
+import { escapeHtml, htmlToText, renderMarkdown } from './markdown';
+
+/**
+ * Note-type presets: the fields, card templates and CSS that basic cards are exported with, to an .apkg
+ * or over AnkiConnect. The built-in presets are fixed; users copy one to make their own, which is kept in
+ * localStorage. Cloze cards always use Flashy's Cloze note type, styled with the selected preset's CSS.
+ */
+
+export interface CardTemplate {
+  name: string;
+  qfmt: string;     // front side, Anki template syntax
+  afmt: string;     // back side; `{{FrontSide}}` inserts the rendered front
+}
+
+export interface NoteTypePreset {
+  id: string;
+  name: string;             // note type name in Anki
+  fields: string[];         // the card's front and back fill the first two; the rest come from `Flashcard.fields`
+  templates: CardTemplate[];  // one card per template whose front isn't empty
+  css: string;
+  builtIn?: boolean;
+}
+
+const STORAGE_KEY = 'flashy_note_types';
+
+// Fields are exported as HTML rendered from Markdown; this styles its code blocks, lists and math
+const CONTENT_CSS = [
+  'code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; background: #f0f0f0; padding: 0 0.2em; border-radius: 3px; }',
+  'pre { text-align: left; background: #f5f5f5; padding: 0.6em 0.8em; border-radius: 4px; overflow-x: auto; }',
+  'pre code { background: none; padding: 0; }',
+  'ul, ol { display: inline-block; text-align: left; }',
+  '.nightMode code, .nightMode pre { background: #2b2b2b; }',
+].join('\n');
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }';
+export const BASIC_CSS = `${CARD_CSS}\n${CONTENT_CSS}`;
+
+// Added to the preset's CSS for the Cloze note type
+const CLOZE_RULES = '.cloze { font-weight: bold; color: blue; }\n.nightMode .cloze { color: lightblue; }';
+
+export const BASIC_TEMPLATE: CardTemplate = { name: 'Card 1', qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}' };
+export const CLOZE_TEMPLATE: CardTemplate = { name: 'Cloze', qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>\n{{Extra}}' };
+export const CLOZE_FIELDS = ['Text', 'Extra'];
+
+const DARK_CSS = [
+  '.card { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 20px; line-height: 1.5; text-align: center; color: #e5e7eb; background-color: #111827; }',
+  'code { font-family: "JetBrains Mono", Menlo, Consolas, monospace; font-size: 1em; background: #1f2937; padding: 0 0.25em; border-radius: 4px; }',
+  'pre { text-align: left; font-size: 17px; background: #1f2937; padding: 0.8em 1em; border-radius: 6px; overflow-x: auto; }',
+  'pre code { background: none; padding: 0; }',
+  'ul, ol { display: inline-block; text-align: left; }',
+  'hr#answer { border: none; border-top: 1px solid #374151; }',
+  'a { color: #60a5fa; }',
+  '.cloze { color: #60a5fa; }',
+].join('\n');
+
+export const BUILT_IN_NOTE_TYPES: NoteTypePreset[] = [
+  {
+    id: 'basic',
+    name: 'Basic',
+    fields: ['Front', 'Back'],
+    templates: [BASIC_TEMPLATE],
+    css: BASIC_CSS,
+    builtIn: true,
+  },
+  {
+    id: 'basic-reversed',
+    name: 'Basic (and reversed card)',
+    fields: ['Front', 'Back'],
+    templates: [
+      BASIC_TEMPLATE,
+      { name: 'Card 2', qfmt: '{{Back}}', afmt: '{{FrontSide}}<hr id=answer>{{Front}}' },
+    ],
+    css: BASIC_CSS,
+    builtIn: true,
+  },
+  {
+    id: 'basic-source',
+    name: 'Basic (with source)',
+    fields: ['Front', 'Back', 'Source'],
+    templates: [{
+      ...BASIC_TEMPLATE,
+      afmt: '{{FrontSide}}<hr id=answer>{{Back}}{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+    }],
+    css: `${BASIC_CSS}\n.source { margin-top: 1.5em; font-size: 0.7em; color: #888; }`,
+    builtIn: true,
+  },
+  {
+    id: 'dark',
+    name: 'Basic (dark)',
+    fields: ['Front', 'Back'],
+    templates: [BASIC_TEMPLATE],
+    css: DARK_CSS,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_NOTE_TYPE = BUILT_IN_NOTE_TYPES[0];
+
+interface StoredNoteTypes {
+  selectedId: string;
+  custom: NoteTypePreset[];
+}
+
+function loadStored(): StoredNoteTypes {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Partial<StoredNoteTypes>;
+    return { selectedId: stored.selectedId ?? DEFAULT_NOTE_TYPE.id, custom: stored.custom ?? [] };
+  } catch {
+    return { selectedId: DEFAULT_NOTE_TYPE.id, custom: [] };
+  }
+}
+
+function saveStored(stored: StoredNoteTypes) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+/** Built-in presets followed by the user's own */
+export function loadNoteTypes(): NoteTypePreset[] {
+  return [...BUILT_IN_NOTE_TYPES, ...loadStored().custom];
+}
+
+/** The preset exports use; falls back to Basic if the selected one was deleted */
+export function loadSelectedNoteType(): NoteTypePreset {
+  const { selectedId } = loadStored();
+  return loadNoteTypes().find(p => p.id === selectedId) ?? DEFAULT_NOTE_TYPE;
+}
+
+export function selectNoteType(id: string) {
+  saveStored({ ...loadStored(), selectedId: id });
+}
+
+/** Add or replace a custom preset, after checking it; returns the normalized preset */
+export function saveNoteType(preset: NoteTypePreset): NoteTypePreset {
+  const normalized = validateNoteType(preset);
+  const stored = loadStored();
+  const index = stored.custom.findIndex(p => p.id === normalized.id);
+  if (index >= 0) stored.custom[index] = normalized;
+  else stored.custom.push(normalized);
+  saveStored(stored);
+  return normalized;
+}
+
+export function deleteNoteType(id: string) {
+  const stored = loadStored();
+  saveStored({
+    selectedId: stored.selectedId === id ? DEFAULT_NOTE_TYPE.id : stored.selectedId,
+    custom: stored.custom.filter(p => p.id !== id),
+  });
+}
+
+/** A copy of a preset the user can edit */
+export function copyNoteType(preset: NoteTypePreset, existing: NoteTypePreset[]): NoteTypePreset {
+  const names = new Set(existing.map(p => p.name));
+  let name = `${preset.name} copy`;
+  for (let n = 2; names.has(name); n++) name = `${preset.name} copy ${n}`;
+  return {
+    id: crypto.randomUUID(),
+    name,
+    fields: [...preset.fields],
+    templates: preset.templates.map(t => ({ ...t })),
+    css: preset.css,
+  };
+}
+
+// Characters Anki's template syntax gives a meaning to
+const INVALID_FIELD_NAME = /[:{}"#^/]/;
+const SPECIAL_FIELDS = ['FrontSide', 'Tags', 'Deck', 'Subdeck', 'Card'];
+
+function validateNoteType(preset: NoteTypePreset): NoteTypePreset {
+  const name = preset.name.trim();
+  if (!name) throw new Error('The note type needs a name');
+  if (loadNoteTypes().some(p => p.id !== preset.id && p.name === name)) {
+    throw new Error(`There's already a note type called "${name}"`);
+  }
+
+  const fields = preset.fields.map(f => f.trim()).filter(Boolean);
+  if (fields.length < 2) throw new Error('A note type needs at least two fields, for the front and the back');
+  if (new Set(fields).size !== fields.length) throw new Error('Field names must be different from each other');
+  const badField = fields.find(f => INVALID_FIELD_NAME.test(f) || f === 'FrontSide');
+  if (badField) throw new Error(`"${badField}" can't be used as a field name`);
+
+  const templates = preset.templates.map(t => ({ ...t, name: t.name.trim() }));
+  if (!templates.length) throw new Error('A note type needs at least one card template');
+  if (templates.some(t => !t.name) || new Set(templates.map(t => t.name)).size !== templates.length) {
+    throw new Error('Every card template needs its own name');
+  }
+  for (const template of templates) {
+    const referenced = templateFields(template.qfmt);
+    if (!referenced.some(f => fields.includes(f))) {
+      throw new Error(`The front of "${template.name}" doesn't show any field, so it would never make a card`);
+    }
+    const unknown = [...referenced, ...templateFields(template.afmt)].find(f => !fields.includes(f) && !SPECIAL_FIELDS.includes(f));
+    if (unknown) throw new Error(`"${template.name}" uses a field that doesn't exist: ${unknown}`);
+  }
+
+  return { id: preset.id, name, fields, templates, css: preset.css };
+}
+
+/** Field names a template refers to, in `{{Field}}`, `{{filter:Field}}` and `{{#Field}}` sections */
+function templateFields(template: string): string[] {
+  return [...template.matchAll(/\{\{([#^/]?)([^}]+)\}\}/g)]
+    .filter(m => m[1] !== '/')
+    .map(m => m[2].split(':').pop()!.trim());
+}
+
+/** The HTML of each field of a card's note: front and back first, then the preset's extra fields */
+export function noteFieldValues(preset: NoteTypePreset, card: Flashcard): Record<string, string> {
+  const [frontField, backField, ...extra] = preset.fields;
+  const values: Record<string, string> = {
+    [frontField]: renderMarkdown(card.front),
+    [backField]: renderMarkdown(card.back),
+  };
+  for (const field of extra) values[field] = renderMarkdown(card.fields?.[field] ?? '');
+  return values;
+}
+
+// Anki treats a field holding only whitespace, line breaks and empty divs as empty
+function isEmptyHtml(html: string): boolean {
+  return !html.replace(/<br\s*\/?>|<\/?div>|&nbsp;|\s/gi, '');
+}
+
+/**
+ * Render an Anki card template: `{{Field}}`, `{{text:Field}}`, `{{#Field}}…{{/Field}}` and
+ * `{{^Field}}…{{/Field}}` sections, and the special fields (FrontSide, Tags, Deck, Subdeck, Card).
+ * Other filters show the field as is; cloze templates are rendered by the Cloze note type instead.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  const section = /\{\{([#^])\s*([^}]+?)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/;
+  let html = template;
+  for (let match = section.exec(html); match; match = section.exec(html)) {
+    const [whole, kind, name, body] = match;
+    const show = isEmptyHtml(values[name] ?? '') === (kind === '^');
+    html = html.replace(whole, show ? body : '');
+  }
+  return html.replace(/\{\{([^}]+)\}\}/g, (_, ref: string) => {
+    const parts = ref.split(':').map(p => p.trim());
+    const name = parts.pop()!;
+    if (!(name in values)) return `{unknown field ${escapeHtml(name)}}`;
+    return parts.includes('text') ? escapeHtml(htmlToText(values[name])) : values[name];
+  });
+}
+
+export interface RenderedCard {
+  template: CardTemplate;
+  ord: number;
+  question: string;
+  answer: string;
+}
+
+/**
+ * The cards Anki makes from a basic card's note with this preset, rendered: one per template whose
+ * front shows something once the note's fields are filled in.
+ */
+export function renderNoteCards(preset: NoteTypePreset, card: Flashcard, deckName = ''): RenderedCard[] {
+  const fields = noteFieldValues(preset, card);
+  const blank = Object.fromEntries(Object.keys(fields).map(f => [f, '']));
+  const special = {
+    Tags: escapeHtml((card.tags ?? []).join(' ')),
+    Deck: escapeHtml(card.subdeck ? `${deckName}::${card.subdeck}` : deckName),
+    Subdeck: escapeHtml((card.subdeck ?? deckName).split('::').pop() ?? ''),
+  };
+  return preset.templates.flatMap((template, ord) => {
+    const values = { ...special, Card: escapeHtml(template.name), ...fields };
+    const question = renderTemplate(template.qfmt, values);
+    const blankQuestion = renderTemplate(template.qfmt, { ...values, ...blank });
+    if (isEmptyHtml(question) || question === blankQuestion) return [];
+    const answer = renderTemplate(template.afmt, { ...values, FrontSide: question });
+    return [{ template, ord, question, answer }];
+  });
+}
+
+/** The preset's CSS with the cloze highlight added, for the Cloze note type */
+export function clozeCssFor(preset: NoteTypePreset): string {
+  return `${preset.css}\n${CLOZE_RULES}`;
+}
+
+/** Anki's `req` list for the legacy schema: which fields each template needs to make a card */
+export function templateRequirements(preset: NoteTypePreset): [number, 'any', number[]][] {
+  return preset.templates.map((template, ord) => {
+    const needed = templateFields(template.qfmt)
+      .map(name => preset.fields.indexOf(name))
+      .filter(index => index >= 0);
+    return [ord, 'any', [...new Set(needed)]];
+  });
+}
@@ -0,0 +1,23 @@
+import type { Worker } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+// The SIMD build with only the LSTM engine is the smallest and fastest, and runs in every current browser
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+/**
+ * Offline OCR for scanned pages. Tesseract runs as WebAssembly in its own Web Worker, loaded from files
+ * bundled with the app (the worker, the engine and English language data), so pages never leave the
+ * browser and nothing is fetched from a CDN. The library itself is only loaded when a document needs it.
+ */
+export async function createOcrWorker(): Promise<Worker> {
+  console.log('[Flashy] Starting OCR engine...');
+  const { createWorker, OEM } = await import('tesseract.js');
+  return createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: workerUrl,
+    corePath: coreUrl,
+    // Tesseract requests `${langPath}/eng.traineddata.gz`, so the build keeps that file name (see vite.config.ts)
+    langPath: englishDataUrl.slice(0, englishDataUrl.lastIndexOf('/')),
+    workerBlobURL: false,
+    cacheMethod: 'none',
+  });
+}
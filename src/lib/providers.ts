@@ -0,0 +1,122 @@
+export type ProviderId = "openrouter" | "ollama" | "lmstudio" | "llamacpp" | "custom";
+
+export interface LLMProvider {
+  id: ProviderId;
+  name: string;
+  /** OpenAI-compatible API root; `/chat/completions` and `/models` are appended */
+  baseUrl: string;
+  requiresKey: boolean;
+  /** Context window to assume when the model list doesn't report one */
+  defaultContextTokens?: number;
+}
+
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+export const PROVIDERS: LLMProvider[] = [
+  {
+    id: "openrouter",
+    name: "OpenRouter",
+    baseUrl: OPENROUTER_BASE_URL,
+    requiresKey: true,
+  },
+  {
+    id: "ollama",
+    name: "Ollama",
+    baseUrl: "http://localhost:11434/v1",
+    requiresKey: false,
+    defaultContextTokens: 8192,
+  },
+  {
+    id: "lmstudio",
+    name: "LM Studio",
+    baseUrl: "http://localhost:1234/v1",
+    requiresKey: false,
+    defaultContextTokens: 8192,
+  },
+  {
+    id: "llamacpp",
+    name: "llama.cpp",
+    baseUrl: "http://localhost:8080/v1",
+    requiresKey: false,
+    defaultContextTokens: 8192,
+  },
+  {
+    id: "custom",
+    name: "Custom (OpenAI-compatible)",
+    baseUrl: "http://localhost:8000/v1",
+    requiresKey: false,
+    defaultContextTokens: 8192,
+  },
+];
+
+export function isLocalProvider(provider: LLMProvider): boolean {
+  return provider.id !== "openrouter";
+}
+
+const SETTINGS_KEY = "flashy_provider";
+
+interface ProviderSettings {
+  selected: ProviderId;
+  baseUrls: Partial<Record<ProviderId, string>>;
+}
+
+/**
+ * Load the selected provider and any user-edited base URLs.
+ * API keys are deliberately not persisted — they only live in React state.
+ */
+export function loadProvider(): LLMProvider {
+  const settings = readSettings();
+  const preset = PROVIDERS.find((p) => p.id === settings.selected) ?? PROVIDERS[0];
+  return withBaseUrl(preset, settings.baseUrls[preset.id]);
+}
+
+/** Switch to another provider preset, restoring the base URL last used with it */
+export function selectProvider(id: ProviderId): LLMProvider {
+  const settings = readSettings();
+  settings.selected = id;
+  writeSettings(settings);
+  return loadProvider();
+}
+
+export function saveProviderBaseUrl(provider: LLMProvider, baseUrl: string): LLMProvider {
+  const settings = readSettings();
+  const normalized = normalizeBaseUrl(baseUrl);
+  const preset = PROVIDERS.find((p) => p.id === provider.id);
+  if (!normalized || normalized === preset?.baseUrl) {
+    delete settings.baseUrls[provider.id];
+  } else {
+    settings.baseUrls[provider.id] = normalized;
+  }
+  writeSettings(settings);
+  return withBaseUrl(provider, normalized);
+}
+
+function withBaseUrl(preset: LLMProvider, baseUrl?: string): LLMProvider {
+  // OpenRouter's endpoint is fixed; only local/custom servers are configurable
+  if (!baseUrl || preset.id === "openrouter") return { ...preset };
+  return { ...preset, baseUrl };
+}
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+function readSettings(): ProviderSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<ProviderSettings>;
+      return {
+        selected: parsed.selected ?? "openrouter",
+        baseUrls: parsed.baseUrls ?? {},
+      };
+    }
+  } catch {
+    /* fall through to defaults */
+  }
+  return { selected: "openrouter", baseUrls: {} };
+}
+
+function writeSettings(settings: ProviderSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,228 @@
+import type { Flashcard } from './ai';
+import { DEFAULT_DECK_OPTIONS, type DeckOptions } from './deckoptions';
+
+/**
+ * SM-2 scheduler, following Anki's variant so that review state can later be carried into an export.
+ * Steps and intervals come from the deck's options (Anki's defaults unless it has its own), the same ones
+ * its exports write, so studying in Flashy and in Anki schedule alike.
+ */
+
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const GRADES: Grade[] = ['again', 'hard', 'good', 'easy'];
+
+export type ReviewPhase = 'new' | 'learning' | 'review' | 'relearning';
+
+export interface ReviewState {
+  phase: ReviewPhase;
+  due: number;            // Unix ms
+  interval: number;       // days; 0 until the card first graduates
+  ease: number;           // interval multiplier, 2.5 = Anki's 250%
+  step: number;           // index into the (re)learning steps
+  reps: number;
+  lapses: number;
+  lastReviewed?: number;  // Unix ms
+}
+
+export interface ReviewLogEntry {
+  cardId: string;
+  reviewedAt: number;     // Unix ms
+  grade: Grade;
+  phase: ReviewPhase;     // phase the card was in when it was answered
+  interval: number;       // days until the next review; fractional for (re)learning steps
+  lastInterval: number;   // days, same convention
+  ease: number;
+  durationMs: number;
+}
+
+const MINUTE = 60_000;
+const DAY = 86_400_000;
+
+const STARTING_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+const HARD_MULTIPLIER = 1.2;
+
+/** Cards whose next step is at most this far away stay in the current session */
+export const LEARN_AHEAD_MS = 20 * MINUTE;
+
+export function newReviewState(): ReviewState {
+  return { phase: 'new', due: 0, interval: 0, ease: STARTING_EASE, step: 0, reps: 0, lapses: 0 };
+}
+
+/** Answer a card and return its next state; the input is not modified */
+export function scheduleReview(
+  state: ReviewState,
+  grade: Grade,
+  options: DeckOptions = DEFAULT_DECK_OPTIONS,
+  now = Date.now(),
+): ReviewState {
+  const next: ReviewState = { ...state, reps: state.reps + 1, lastReviewed: now };
+
+  if (state.phase === 'review') {
+    if (grade === 'again') {
+      next.lapses++;
+      next.ease = Math.max(MIN_EASE, state.ease - 0.2);
+      next.interval = 1;
+      // Without relearning steps a lapsed card goes straight back to review, as in Anki
+      if (!options.relearningSteps.length) return graduate(next, 1, options, now);
+      return enterStep(next, 'relearning', 0, options, now);
+    }
+    let interval: number;
+    if (grade === 'hard') {
+      interval = state.interval * HARD_MULTIPLIER;
+      next.ease = Math.max(MIN_EASE, state.ease - 0.15);
+    } else if (grade === 'good') {
+      interval = state.interval * state.ease;
+    } else {
+      interval = state.interval * state.ease * EASY_BONUS;
+      next.ease = state.ease + 0.15;
+    }
+    // Always move forward by at least a day so a card can't get stuck
+    return graduate(next, Math.max(Math.round(interval), state.interval + 1), options, now);
+  }
+
+  const phase = state.phase === 'relearning' ? 'relearning' : 'learning';
+  const steps = stepsFor(phase, options);
+  // The options may have changed since the card entered its step; carry on from the last step there is
+  if (!steps.length) return graduate(next, state.interval, options, now);
+  const step = Math.min(state.step, steps.length - 1);
+  switch (grade) {
+    case 'again':
+      return enterStep(next, phase, 0, options, now);
+    case 'hard':
+      return enterStep(next, phase, step, options, now);
+    case 'good':
+      if (step + 1 < steps.length) return enterStep(next, phase, step + 1, options, now);
+      return graduate(next, phase === 'relearning' ? state.interval : options.graduatingInterval, options, now);
+    case 'easy':
+      return graduate(next, phase === 'relearning' ? state.interval + 1 : options.easyInterval, options, now);
+  }
+}
+
+/** Learning or relearning steps, in minutes */
+function stepsFor(phase: ReviewPhase, options: DeckOptions): number[] {
+  return phase === 'relearning' ? options.relearningSteps : options.learningSteps;
+}
+
+function enterStep(
+  next: ReviewState, phase: 'learning' | 'relearning', step: number, options: DeckOptions, now: number,
+): ReviewState {
+  return { ...next, phase, step, due: now + stepsFor(phase, options)[step] * MINUTE };
+}
+
+function graduate(next: ReviewState, interval: number, options: DeckOptions, now: number): ReviewState {
+  const days = Math.min(Math.max(interval, 1), options.maximumInterval);
+  return { ...next, phase: 'review', step: 0, interval: days, due: now + days * DAY };
+}
+
+/** (Re)learning steps still to go, counting the current one */
+export function stepsLeft(state: ReviewState, options: DeckOptions = DEFAULT_DECK_OPTIONS): number {
+  return Math.max(stepsFor(state.phase, options).length - state.step, 1);
+}
+
+/** Time until the card would be due again for each grade, for labelling the answer buttons */
+export function previewIntervals(
+  state: ReviewState, options: DeckOptions = DEFAULT_DECK_OPTIONS, now = Date.now(),
+): Record<Grade, number> {
+  const result = {} as Record<Grade, number>;
+  for (const grade of GRADES) result[grade] = scheduleReview(state, grade, options, now).due - now;
+  return result;
+}
+
+/** Build the log entry for an answer, given the card's state before and after it */
+export function logReview(
+  cardId: string,
+  before: ReviewState,
+  after: ReviewState,
+  grade: Grade,
+  durationMs: number,
+): ReviewLogEntry {
+  const reviewedAt = after.lastReviewed ?? Date.now();
+  return {
+    cardId,
+    reviewedAt,
+    grade,
+    phase: before.phase,
+    interval: (after.due - reviewedAt) / DAY,
+    // A (re)learning card's last interval is the step it was waiting on, not its review interval
+    lastInterval: before.phase !== 'review' && before.lastReviewed !== undefined
+      ? (before.due - before.lastReviewed) / DAY
+      : before.interval,
+    ease: after.ease,
+    durationMs,
+  };
+}
+
+export function formatInterval(ms: number): string {
+  const minutes = Math.round(ms / MINUTE);
+  if (minutes < 60) return `${Math.max(minutes, 1)}m`;
+  const hours = Math.round(ms / (60 * MINUTE));
+  if (hours < 24) return `${hours}h`;
+  const days = Math.round(ms / DAY);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${(days / 30).toFixed(1).replace(/\.0$/, '')}mo`;
+  return `${(days / 365).toFixed(1).replace(/\.0$/, '')}y`;
+}
+
+export interface StudyCounts {
+  new: number;
+  learning: number;
+  review: number;
+}
+
+/**
+ * Cards to study now: everything due (learning cards first, then reviews), followed by
+ * up to `newLimit` unseen cards in deck order. Cards without an id can't hold state and are skipped.
+ */
+export function buildStudyQueue(
+  cards: Flashcard[],
+  reviews: Record<string, ReviewState>,
+  newLimit = 20,
+  now = Date.now(),
+): string[] {
+  const learning: string[] = [];
+  const review: string[] = [];
+  const fresh: string[] = [];
+
+  for (const card of cards) {
+    if (!card.id) continue;
+    const state = reviews[card.id];
+    if (!state || state.phase === 'new') {
+      if (fresh.length < newLimit) fresh.push(card.id);
+    } else if (state.due <= now + LEARN_AHEAD_MS && state.phase !== 'review') {
+      learning.push(card.id);
+    } else if (state.phase === 'review' && state.due <= now) {
+      review.push(card.id);
+    }
+  }
+
+  return [...learning, ...review, ...fresh];
+}
+
+export function countStudyQueue(queue: string[], reviews: Record<string, ReviewState>): StudyCounts {
+  const counts: StudyCounts = { new: 0, learning: 0, review: 0 };
+  for (const id of queue) {
+    const phase = reviews[id]?.phase ?? 'new';
+    if (phase === 'new') counts.new++;
+    else if (phase === 'review') counts.review++;
+    else counts.learning++;
+  }
+  return counts;
+}
+
+/** Next card to show: the first one that's due, or else the soonest learning card (learning ahead) */
+export function pickNextCard(queue: string[], reviews: Record<string, ReviewState>, now = Date.now()): string | undefined {
+  const dueAt = (id: string) => reviews[id]?.due ?? 0;
+  return queue.find(id => dueAt(id) <= now)
+    ?? [...queue].sort((a, b) => dueAt(a) - dueAt(b))[0];
+}
+
+/** When the next studied card in the deck becomes due, if any has been studied */
+export function nextDueAt(cards: Flashcard[], reviews: Record<string, ReviewState>): number | undefined {
+  const dues = cards
+    .map(card => (card.id ? reviews[card.id] : undefined))
+    .filter((s): s is ReviewState => !!s && s.phase !== 'new')
+    .map(s => s.due);
+  return dues.length ? Math.min(...dues) : undefined;
+}
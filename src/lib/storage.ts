@@ -1,4 +1,7 @@
 import type { Flashcard } from './ai';
+import type { DeckOptions } from './deckoptions';
+import type { DocumentMetadata, SourceSelection, SourceType } from './document';
+import type { ReviewLogEntry, ReviewState } from './srs';
 
 export interface DeckRecord {
   id: string;
@@ -7,48 +10,235 @@ export interface DeckRecord {
   model: string;
   difficulty: string;
   sourceFile: string;
+  sourceType?: SourceType;            // absent on decks saved before structured extraction
+  sourceMetadata?: DocumentMetadata;
+  sourceSelection?: SourceSelection;       // the pages or sections cards were generated from; the whole document when absent
   createdAt: number;      // Unix ms
   cardCount: number;
   tags: string[];
+  reviews?: Record<string, ReviewState>;   // study-mode scheduling, keyed by card id
+  reviewLog?: ReviewLogEntry[];
+  ankiNoteIds?: Record<string, number>;    // Anki note id per card id, from the last AnkiConnect push
+  deckOptions?: DeckOptions;               // Anki options group written into exports; Anki's defaults when absent
 }
 
-const STORAGE_KEY = 'flashy_decks';
+const DB_NAME = 'flashy';
+const DECK_STORE = 'decks';
+const MEDIA_STORE = 'media';
 
-function readAll(): DeckRecord[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    return JSON.parse(raw) as DeckRecord[];
-  } catch {
-    return [];
+/** An image used by cards, stored under its Anki media file name */
+export interface MediaRecord {
+  name: string;
+  blob: Blob;
+}
+
+/** Legacy localStorage key; its decks are moved into IndexedDB by the version 1 migration */
+const LEGACY_STORAGE_KEY = 'flashy_decks';
+
+/**
+ * Schema migrations: `MIGRATIONS[n]` upgrades the library from version n to n + 1.
+ * Each runs inside the upgrade transaction, so a failed migration leaves the previous version intact.
+ * Add new entries at the end; never edit one that has shipped.
+ */
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  // v1: one record per deck, replacing the single localStorage blob (whose decks `moveLegacyDecks` brings over)
+  (db) => {
+    const store = db.createObjectStore(DECK_STORE, { keyPath: 'id' });
+    store.createIndex('createdAt', 'createdAt');
+  },
+  // v2: images referenced by cards, shared between decks
+  (db) => {
+    db.createObjectStore(MEDIA_STORE, { keyPath: 'name' });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          console.log(`[Flashy] Migrating library to schema v${version + 1}`);
+          MIGRATIONS[version](db);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; close so its upgrade isn't blocked, and reopen next time
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onblocked = () => console.warn('[Flashy] Library upgrade is waiting for other tabs to close');
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+/** Run one request in its own transaction, resolving once the transaction has committed */
+function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = DECK_STORE,
+): Promise<T> {
+  return withTransaction(mode, store => {
+    const request = run(store);
+    return () => request.result;
+  }, storeName);
+}
+
+/**
+ * Run several requests in one transaction, e.g. a read and the write that depends on it, so no other
+ * write can land in between. `run` returns a function giving the result once the transaction has committed.
+ */
+async function withTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => () => T,
+  storeName = DECK_STORE,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const result = run(tx.objectStore(storeName));
+    tx.oncomplete = () => {
+      try {
+        resolve(result());
+      } catch (error) {
+        reject(error);
+      }
+    };
+    // Quota errors surface on the transaction rather than the request
+    tx.onabort = () => reject(toStorageError(tx.error));
+    tx.onerror = () => reject(toStorageError(tx.error));
+  });
+}
+
+function toStorageError(error: DOMException | null): Error {
+  if (error?.name === 'QuotaExceededError') {
+    return new Error('Browser storage is full — delete some saved decks from your history and try again');
   }
+  return new Error(`Could not access the saved deck library${error?.message ? `: ${error.message}` : ''}`);
 }
 
-function writeAll(decks: DeckRecord[]): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(decks));
+/**
+ * Move decks that earlier versions kept in localStorage into the library. If they can't be read they stay
+ * where they are, untouched, and every call fails with a message saying so, until they can be.
+ */
+export async function moveLegacyDecks(): Promise<void> {
+  if (localStorage.getItem(LEGACY_STORAGE_KEY) === null) return;
+  const decks = readLegacyDecks();
+  if (!decks) {
+    throw new Error(`Decks saved by an older version of Flashy couldn't be read, so they aren't in your history. They're still in this browser's localStorage under "${LEGACY_STORAGE_KEY}".`);
+  }
+  await withTransaction('readwrite', store => {
+    for (const deck of decks) store.put(deck);
+    return () => undefined;
+  });
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`[Flashy] Moved ${decks.length} deck${decks.length === 1 ? '' : 's'} from localStorage into the library`);
 }
 
-export function getDecks(): DeckRecord[] {
-  return readAll().sort((a, b) => b.createdAt - a.createdAt);
+/** Decks saved in localStorage by earlier versions; null if they can't be read */
+function readLegacyDecks(): DeckRecord[] | null {
+  try {
+    const decks = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '[]') as DeckRecord[];
+    // Decks saved before cards had ids get them now, so later exports keep matching notes
+    for (const deck of decks) {
+      for (const card of deck.cards) card.id ??= crypto.randomUUID();
+    }
+    return decks;
+  } catch (error) {
+    console.error('[Flashy] Could not read the decks in localStorage:', error);
+    return null;
+  }
 }
 
-export function saveDeck(deck: Omit<DeckRecord, 'id' | 'createdAt' | 'cardCount'>): DeckRecord {
+export async function getDecks(): Promise<DeckRecord[]> {
+  const decks = await withStore('readonly', store => store.getAll() as IDBRequest<DeckRecord[]>);
+  return decks.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveDeck(deck: Omit<DeckRecord, 'id' | 'createdAt' | 'cardCount'>): Promise<DeckRecord> {
   const record: DeckRecord = {
     ...deck,
     id: crypto.randomUUID(),
     createdAt: Date.now(),
     cardCount: deck.cards.length,
   };
-  const decks = readAll();
-  decks.push(record);
-  writeAll(decks);
+  await withStore('readwrite', store => store.add(record));
   return record;
 }
 
-export function deleteDeck(id: string): void {
-  writeAll(readAll().filter(d => d.id !== id));
+export async function deleteDeck(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function getDeck(id: string): Promise<DeckRecord | undefined> {
+  return withStore('readonly', store => store.get(id) as IDBRequest<DeckRecord | undefined>);
+}
+
+/**
+ * Apply edits to a saved deck, keeping its id and creation time. The deck is read and written in one
+ * transaction, so concurrent updates of different fields (cards, reviews, Anki note ids) don't undo each other.
+ */
+export async function updateDeck(id: string, changes: Partial<Omit<DeckRecord, 'id' | 'createdAt' | 'cardCount'>>): Promise<DeckRecord> {
+  return withTransaction('readwrite', store => {
+    let record: DeckRecord | undefined;
+    const request = store.get(id) as IDBRequest<DeckRecord | undefined>;
+    request.onsuccess = () => {
+      const deck = request.result;
+      if (!deck) return;
+      record = { ...deck, ...changes, cardCount: (changes.cards ?? deck.cards).length };
+      store.put(record);
+    };
+    return () => {
+      if (!record) throw new Error('This deck is no longer in your history');
+      return record;
+    };
+  });
+}
+
+/** Store an image; names are content hashes, so storing the same image twice keeps one copy */
+export async function saveMedia(media: MediaRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(media), MEDIA_STORE);
+}
+
+/** Load stored images by name; names that aren't stored are left out */
+export async function getMedia(names: string[]): Promise<Map<string, Blob>> {
+  const found = new Map<string, Blob>();
+  for (const name of new Set(names)) {
+    const record = await withStore('readonly', store => store.get(name) as IDBRequest<MediaRecord | undefined>, MEDIA_STORE);
+    if (record) found.set(name, record.blob);
+  }
+  return found;
 }
 
-export function getDeck(id: string): DeckRecord | undefined {
-  return readAll().find(d => d.id === id);
+/**
+ * Delete every stored image whose name isn't in `keep`, e.g. after the last deck using it was deleted.
+ * The scan and the deletes share one transaction, so an image saved meanwhile is either seen or left alone.
+ */
+export async function pruneMedia(keep: Set<string>): Promise<void> {
+  const unused = await withTransaction('readwrite', store => {
+    const unused: string[] = [];
+    const request = store.getAllKeys() as IDBRequest<string[]>;
+    request.onsuccess = () => {
+      for (const name of request.result.filter(name => !keep.has(name))) {
+        unused.push(name);
+        store.delete(name);
+      }
+    };
+    return () => unused;
+  }, MEDIA_STORE);
+  if (unused.length) console.log(`[Flashy] Removed ${unused.length} unused image${unused.length === 1 ? '' : 's'}`);
 }
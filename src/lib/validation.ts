@@ -0,0 +1,144 @@
+import type { Flashcard } from "./ai";
+import { hasClozeMarkers, validateClozeText } from "./cloze";
+
+export interface CardIssue {
+  index: number;          // position of the card in the model's output
+  severity: "error" | "warning";   // errors drop the card, warnings were fixed up
+  message: string;
+}
+
+export interface CardValidation {
+  card?: Flashcard;       // normalized card, absent when the card is unusable
+  issues: CardIssue[];
+}
+
+const CARD_TYPES = ["basic", "cloze"] as const;
+
+/**
+ * Check one raw value from the model against the Flashcard shape and normalize it.
+ * Recoverable problems (numeric fields, `question`/`answer`-style keys, unknown types,
+ * comma-separated tag strings) are fixed and reported as warnings; a card without
+ * usable front and back text is reported as an error and dropped.
+ * Cloze cards keep their text in `front` and optional extra info in `back`, and must
+ * have well-formed `{{c1::...}}` deletions.
+ */
+export function validateCard(raw: unknown, index: number): CardValidation {
+  const issues: CardIssue[] = [];
+  const warn = (message: string) => issues.push({ index, severity: "warning", message });
+  const fail = (message: string): CardValidation => {
+    issues.push({ index, severity: "error", message });
+    return { issues };
+  };
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return fail(`expected an object, got ${Array.isArray(raw) ? "an array" : typeof raw}`);
+  }
+  const obj = raw as Record<string, unknown>;
+
+  const front = readText(obj, "front", ["question", "text"], warn);
+  const back = readText(obj, "back", ["answer", "extra"], warn);
+  if (!front) return fail(`"front" is missing or empty`);
+
+  let type: Flashcard["type"] = "basic";
+  if (obj.type !== undefined) {
+    const raw = String(obj.type).trim().toLowerCase();
+    if ((CARD_TYPES as readonly string[]).includes(raw)) {
+      type = raw as Flashcard["type"];
+    } else {
+      warn(`unknown type "${String(obj.type)}", using "basic"`);
+    }
+  }
+  if (type === "basic" && hasClozeMarkers(front)) {
+    warn(`"front" contains cloze deletions, treating as a cloze card`);
+    type = "cloze";
+  }
+
+  if (type === "cloze") {
+    const problems = validateClozeText(front);
+    if (problems.length) return fail(`invalid cloze text: ${problems.join("; ")}`);
+  } else if (!back) {
+    return fail(`"back" is missing or empty`);
+  }
+
+  const card: Flashcard = { id: crypto.randomUUID(), front, back, type };
+
+  const tags = readTags(obj.tags, warn);
+  if (tags.length) card.tags = tags;
+
+  const subdeck = typeof obj.subdeck === "string" ? normalizeDeckPath(obj.subdeck) : "";
+  if (subdeck) card.subdeck = subdeck;
+
+  const fields = readExtraFields(obj.fields);
+  if (fields) card.fields = fields;
+
+  return { card, issues };
+}
+
+/** Tidy an Anki deck path: `::`-separated, no empty or padded levels */
+export function normalizeDeckPath(path: string): string {
+  return path
+    .split("::")
+    .map((part) => part.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("::");
+}
+
+export function formatIssue(issue: CardIssue): string {
+  return `card ${issue.index + 1}: ${issue.message}`;
+}
+
+function readText(
+  obj: Record<string, unknown>,
+  key: string,
+  aliases: string[],
+  warn: (message: string) => void,
+): string {
+  let value = obj[key];
+  const alias = aliases.find((a) => obj[a] !== undefined);
+  if (value === undefined && alias) {
+    warn(`used "${alias}" instead of "${key}"`);
+    value = obj[alias];
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    warn(`"${key}" was a ${typeof value}, converted to text`);
+    return String(value);
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+    warn(`"${key}" was a list, joined into text`);
+    return value.join("\n").trim();
+  }
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/** Anki tags are space-separated, so spaces inside a tag become underscores */
+function readTags(value: unknown, warn: (message: string) => void): string[] {
+  if (value === undefined || value === null) return [];
+
+  let tags: unknown[];
+  if (typeof value === "string") {
+    warn(`"tags" was a string, split into a list`);
+    tags = value.split(/[,;]/);
+  } else if (Array.isArray(value)) {
+    tags = value;
+  } else {
+    warn(`"tags" was not a list, ignored`);
+    return [];
+  }
+
+  const cleaned = tags
+    .filter((t): t is string | number => typeof t === "string" || typeof t === "number")
+    .map((t) => String(t).trim().replace(/\s+/g, "_"))
+    .filter(Boolean);
+  if (cleaned.length !== tags.length) warn(`dropped empty or non-text tags`);
+  return [...new Set(cleaned)];
+}
+
+/** Extra note-type fields: text values only, empty ones left out */
+function readExtraFields(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value)
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .map(([name, text]) => [name.trim(), text.trim()])
+    .filter(([name, text]) => name && text);
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
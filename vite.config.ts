@@ -1,7 +1,24 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Rollup } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Tesseract loads its language data by file name, so that file can't get a content hash
+const assetFileNames = (asset: Rollup.PreRenderedAsset) => asset.names.some(name => name.endsWith('.traineddata.gz'))
+  ? 'tessdata/[name][extname]'
+  : 'assets/[name]-[hash][extname]'
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // Extraction runs in a worker that loads pdf.js and Tesseract on demand, which needs a module worker
+  worker: {
+    format: 'es',
+    rollupOptions: {
+      output: { assetFileNames },
+    },
+  },
+  build: {
+    rollupOptions: {
+      output: { assetFileNames },
+    },
+  },
 })